@@ -0,0 +1,77 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from "class-validator";
+import { AdapterRule, checkRule } from "./rules";
+
+/**
+ * Cria um decorator do class-validator que valida um documento.
+ * 
+ * A mensagem padrão é a mesma da extensão Joi e indica o motivo da falha. Valores que não são strings são
+ * rejeitados como documentos vazios.
+ * 
+ * @param rule - A regra de validação: `'cpf'`, `'cnpj'` ou `'cpfOrCnpj'`.
+ * @param name - O nome da restrição, utilizado em `ValidationError.constraints`.
+ * @param validationOptions - As opções de validação do class-validator.
+ * 
+ * @example
+ * createDecorator("cpf", "isCPF");
+ */
+function createDecorator(rule: AdapterRule, name: string, validationOptions?: ValidationOptions) {
+  const check = (value: unknown) => checkRule(rule, typeof value === "string" ? value : "");
+
+  return (object: object, propertyName: string): void => {
+    registerDecorator({
+      name,
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate: (value: unknown) => check(value) === null,
+        defaultMessage: (args: ValidationArguments) => check(args.value)?.message ?? "",
+      },
+    });
+  };
+}
+
+/**
+ * Valida que a propriedade é um CPF, com ou sem pontuação.
+ * 
+ * @param validationOptions - As opções de validação do class-validator.
+ * 
+ * @example
+ * class Cliente {
+ *   @IsCPF()
+ *   cpf!: string;
+ * }
+ */
+export function IsCPF(validationOptions?: ValidationOptions) {
+  return createDecorator("cpf", "isCPF", validationOptions);
+}
+
+/**
+ * Valida que a propriedade é um CNPJ numérico ou alfanumérico, com ou sem pontuação.
+ * 
+ * @param validationOptions - As opções de validação do class-validator.
+ * 
+ * @example
+ * class Empresa {
+ *   @IsCNPJ()
+ *   cnpj!: string;
+ * }
+ */
+export function IsCNPJ(validationOptions?: ValidationOptions) {
+  return createDecorator("cnpj", "isCNPJ", validationOptions);
+}
+
+/**
+ * Valida que a propriedade é um CPF ou um CNPJ, identificando o tipo automaticamente.
+ * 
+ * @param validationOptions - As opções de validação do class-validator.
+ * 
+ * @example
+ * class Pagador {
+ *   @IsCPFOrCNPJ()
+ *   documento!: string;
+ * }
+ */
+export function IsCPFOrCNPJ(validationOptions?: ValidationOptions) {
+  return createDecorator("cpfOrCnpj", "isCPFOrCNPJ", validationOptions);
+}
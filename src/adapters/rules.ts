@@ -0,0 +1,50 @@
+import cpf from "../cpf";
+import cnpj from "../cnpj";
+import document from "../document";
+import { describeKind, formatMessage } from "../messages";
+import { DocumentKind, ValidationReason } from "../types";
+
+/**
+ * Regra de validação disponível nos adaptadores.
+ */
+export type AdapterRule = "cpf" | "cnpj" | "cpfOrCnpj";
+
+/**
+ * Falha de validação de um documento, com o mesmo código e mensagem da extensão Joi.
+ */
+export interface RuleFailure {
+  /** O código do erro (ex: `document.cpf.firstCheckDigit`). */
+  code: string;
+  /** O motivo da rejeição. */
+  reason: ValidationReason;
+  /** O tipo de documento identificado, ou `null` quando não foi possível identificá-lo. */
+  kind: DocumentKind | null;
+  /** A mensagem do erro, em português. */
+  message: string;
+}
+
+/**
+ * Valida um documento de acordo com uma regra e retorna a falha, se houver.
+ * 
+ * @param rule - A regra de validação.
+ * @param value - O documento, com ou sem pontuação.
+ * 
+ * @returns {RuleFailure | null} A falha de validação, ou `null` se o documento for válido.
+ * 
+ * @example
+ * // Retorna { code: "document.cpf.secondCheckDigit", reason: "secondCheckDigit", kind: "cpf", message: "CPF inválido: ..." }
+ * checkRule("cpf", "295.379.955-94");
+ */
+export function checkRule(rule: AdapterRule, value: string): RuleFailure | null {
+  const validators = { cpf: cpf.validate, cnpj: cnpj.validate, cpfOrCnpj: document.validate };
+  const result = validators[rule](value);
+  if (result.valid || !result.reason) return null;
+
+  const code = `document.${rule}.${result.reason}`;
+  return {
+    code,
+    reason: result.reason,
+    kind: result.kind,
+    message: formatMessage(code, { document: describeKind(result.kind) }),
+  };
+}
@@ -0,0 +1,49 @@
+import { addMethod, string, StringSchema } from "yup";
+import { AdapterRule, checkRule } from "./rules";
+
+declare module "yup" {
+  interface StringSchema {
+    /** Valida um CPF, com ou sem pontuação. */
+    cpf(message?: string): this;
+    /** Valida um CNPJ numérico ou alfanumérico, com ou sem pontuação. */
+    cnpj(message?: string): this;
+    /** Valida um CPF ou um CNPJ, identificando o tipo automaticamente. */
+    cpfOrCnpj(message?: string): this;
+  }
+}
+
+/**
+ * Adiciona ao `string()` do Yup um método que valida um documento.
+ * 
+ * Em caso de falha, o erro tem o nome da regra como `type` e a mesma mensagem da extensão Joi. Os parâmetros
+ * do erro informam o código (`code`), o motivo (`reason`) e o tipo de documento identificado (`kind`).
+ * Valores nulos ou indefinidos não são validados: utilize `required()` para exigi-los.
+ * 
+ * @param rule - A regra de validação: `'cpf'`, `'cnpj'` ou `'cpfOrCnpj'`.
+ * 
+ * @example
+ * addDocumentMethod("cpf");
+ * string().cpf().validateSync("295.379.955-93");
+ */
+function addDocumentMethod(rule: AdapterRule): void {
+  addMethod(string, rule, function (this: StringSchema, message?: string) {
+    return this.test({
+      name: rule,
+      test(value) {
+        if (value === undefined || value === null) return true;
+
+        const failure = checkRule(rule, value);
+        if (!failure) return true;
+
+        return this.createError({
+          message: message ?? failure.message,
+          params: { code: failure.code, reason: failure.reason, kind: failure.kind },
+        });
+      },
+    });
+  });
+}
+
+addDocumentMethod("cpf");
+addDocumentMethod("cnpj");
+addDocumentMethod("cpfOrCnpj");
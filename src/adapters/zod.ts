@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { AdapterRule, checkRule } from "./rules";
+
+interface ZodDocumentOptions {
+  message?: string;
+}
+
+/**
+ * Cria uma função de refinamento do Zod que valida um documento.
+ * 
+ * Em caso de falha, é adicionado um erro `custom` com a mesma mensagem da extensão Joi. Os parâmetros do
+ * erro informam o código (`code`), o motivo (`reason`) e o tipo de documento identificado (`kind`).
+ * 
+ * @param rule - A regra de validação: `'cpf'`, `'cnpj'` ou `'cpfOrCnpj'`.
+ * @param {ZodDocumentOptions} [options] - Opções do refinamento.
+ * @param {string} [options.message] - Mensagem utilizada no lugar da mensagem padrão.
+ * 
+ * @returns A função de refinamento, a ser utilizada com `superRefine`.
+ * 
+ * @example
+ * z.string().trim().superRefine(refineDocument("cpf"));
+ */
+export function refineDocument(rule: AdapterRule, options?: ZodDocumentOptions) {
+  return (value: string, ctx: z.RefinementCtx): void => {
+    const failure = checkRule(rule, value);
+    if (!failure) return;
+
+    ctx.addIssue({
+      code: "custom",
+      message: options?.message ?? failure.message,
+      params: { code: failure.code, reason: failure.reason, kind: failure.kind },
+    });
+  };
+}
+
+/**
+ * Cria um schema Zod que valida um CPF, com ou sem pontuação.
+ * 
+ * @param {ZodDocumentOptions} [options] - Opções do schema.
+ * @param {string} [options.message] - Mensagem utilizada no lugar da mensagem padrão.
+ * 
+ * @example
+ * cpf().parse("295.379.955-93"); // "295.379.955-93"
+ */
+export function cpf(options?: ZodDocumentOptions) {
+  return z.string().superRefine(refineDocument("cpf", options));
+}
+
+/**
+ * Cria um schema Zod que valida um CNPJ numérico ou alfanumérico, com ou sem pontuação.
+ * 
+ * @param {ZodDocumentOptions} [options] - Opções do schema.
+ * @param {string} [options.message] - Mensagem utilizada no lugar da mensagem padrão.
+ * 
+ * @example
+ * cnpj().parse("12.ABC.345/01DE-35"); // "12.ABC.345/01DE-35"
+ */
+export function cnpj(options?: ZodDocumentOptions) {
+  return z.string().superRefine(refineDocument("cnpj", options));
+}
+
+/**
+ * Cria um schema Zod que valida um CPF ou um CNPJ, identificando o tipo automaticamente.
+ * 
+ * @param {ZodDocumentOptions} [options] - Opções do schema.
+ * @param {string} [options.message] - Mensagem utilizada no lugar da mensagem padrão.
+ * 
+ * @example
+ * cpfOrCnpj().parse("25.143.815/0001-50"); // "25.143.815/0001-50"
+ */
+export function cpfOrCnpj(options?: ZodDocumentOptions) {
+  return z.string().superRefine(refineDocument("cpfOrCnpj", options));
+}
@@ -0,0 +1,357 @@
+import { Readable, Transform, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { StringDecoder } from "string_decoder";
+import cpf from "../cpf";
+import cnpj from "../cnpj";
+import document from "../document";
+import { BatchReport, BatchValidationOptions, DocumentValidationResult } from "../types";
+
+/**
+ * Registro lido do arquivo, com o número da linha em que ele começa.
+ */
+interface ParsedRecord {
+  fields: string[];
+  line: number;
+}
+
+/**
+ * Resultado da validação de uma coluna de um registro, ou `null` quando o valor vazio foi ignorado.
+ */
+type ColumnResult = DocumentValidationResult | null;
+
+const VALIDATORS: Record<BatchValidationOptions["columns"][string], (value: string) => DocumentValidationResult> = {
+  cpf: cpf.validate,
+  cnpj: cnpj.validate,
+  auto: document.validate,
+};
+
+/**
+ * Cria uma stream que valida as colunas de documentos de um arquivo CSV ou NDJSON.
+ * 
+ * A stream recebe o conteúdo do arquivo e emite o mesmo conteúdo com duas colunas adicionais para cada
+ * coluna validada: `<coluna>_valid` e `<coluna>_reason`. Ao final, antes do evento `end`, é emitido o evento
+ * `report` com o relatório da validação: a quantidade de falhas por motivo, os números das linhas inválidas
+ * e, com a opção `duplicates`, os documentos repetidos. Os registros são processados à medida que são lidos,
+ * de modo que arquivos grandes não precisam ser carregados inteiros na memória. A busca por documentos
+ * repetidos é a exceção: ela mantém em memória cada documento lido até o final do arquivo.
+ * 
+ * @param {BatchValidationOptions} options - As opções da validação.
+ * @param {('csv' | 'ndjson')} options.format - O formato do arquivo.
+ * @param {Record<string, ('cpf' | 'cnpj' | 'auto')>} options.columns - As colunas a serem validadas e o tipo de cada uma.
+ * @param {string} [options.delimiter] - O separador das colunas do CSV. O padrão é `,`.
+ * @param {boolean} [options.skipEmpty] - Se verdadeiro, valores vazios não são validados.
+ * @param {boolean} [options.duplicates] - Se verdadeiro, informa no relatório os documentos repetidos.
+ * 
+ * @returns {Transform} A stream de validação.
+ * 
+ * @throws {Error} Se o tipo de alguma coluna for inválido. Colunas ausentes no cabeçalho do CSV e linhas com
+ * JSON inválido resultam em um erro na stream.
+ * 
+ * @example
+ * fs.createReadStream("clientes.csv")
+ *   .pipe(createValidationStream({ format: "csv", columns: { documento: "auto" } }))
+ *   .on("report", (report) => console.log(report))
+ *   .pipe(fs.createWriteStream("clientes-validados.csv"));
+ */
+function createValidationStream(options: BatchValidationOptions): Transform {
+  const columns = Object.entries(options.columns);
+  for (const [column, type] of columns) {
+    if (!VALIDATORS[type]) throw new Error(`Tipo de documento inválido para a coluna ${column}: ${type}`);
+  }
+
+  const delimiter = options.delimiter ?? ",";
+  const decoder = new StringDecoder("utf8");
+  const parser = options.format === "csv" ? createCSVParser(delimiter) : createNDJSONParser();
+  const report: BatchReport = { rows: 0, validRows: 0, invalidRows: 0, failures: {}, invalidRowNumbers: [], duplicates: [] };
+  const seen = options.duplicates
+    ? new Map(columns.map(([column]) => [column, new Map<string, number | number[]>()]))
+    : null;
+  let header: string[] | null = null;
+
+  const validateRecord = (values: Record<string, unknown>, line: number): ColumnResult[] => {
+    const results = columns.map(([column, type]): ColumnResult => {
+      const value = values[column] === undefined || values[column] === null ? "" : String(values[column]);
+      if (options.skipEmpty && value.trim() === "") return null;
+
+      const result = VALIDATORS[type](value);
+      if (result.reason) report.failures[result.reason] = (report.failures[result.reason] ?? 0) + 1;
+      if (seen && result.value) trackDuplicate(seen.get(column)!, result.value.toUpperCase(), line);
+      return result;
+    });
+
+    report.rows++;
+    if (results.every((result) => !result || result.valid)) {
+      report.validRows++;
+    } else {
+      report.invalidRows++;
+      report.invalidRowNumbers.push(line);
+    }
+
+    return results;
+  };
+
+  const processCSV = ({ fields, line }: ParsedRecord): string => {
+    if (!header) {
+      header = fields;
+      const missing = columns.find(([column]) => !fields.includes(column));
+      if (missing) throw new Error(`Coluna não encontrada no CSV: ${missing[0]}`);
+
+      const resultColumns = columns.flatMap(([column]) => [`${column}_valid`, `${column}_reason`]);
+      return toCSVLine([...fields, ...resultColumns], delimiter);
+    }
+
+    const values = Object.fromEntries(header.map((column, index) => [column, fields[index]]));
+    const results = validateRecord(values, line);
+    const resultFields = results.flatMap((result) => (result ? [`${result.valid}`, result.reason ?? ""] : ["", ""]));
+    return toCSVLine([...fields, ...resultFields], delimiter);
+  };
+
+  const processNDJSON = ({ fields: [text], line }: ParsedRecord): string => {
+    let values: unknown;
+    try {
+      values = JSON.parse(text);
+    } catch {
+      throw new Error(`JSON inválido na linha ${line}`);
+    }
+    if (typeof values !== "object" || values === null || Array.isArray(values)) {
+      throw new Error(`A linha ${line} não contém um objeto JSON`);
+    }
+
+    const results = validateRecord(values as Record<string, unknown>, line);
+    const output: Record<string, unknown> = { ...values };
+    columns.forEach(([column], index) => {
+      output[`${column}_valid`] = results[index]?.valid ?? null;
+      output[`${column}_reason`] = results[index]?.reason ?? null;
+    });
+    return `${JSON.stringify(output)}\n`;
+  };
+
+  const processRecords = (stream: Transform, records: ParsedRecord[]) => {
+    for (const record of records) {
+      stream.push(options.format === "csv" ? processCSV(record) : processNDJSON(record));
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer | string, _encoding, callback) {
+      try {
+        processRecords(this, parser.push(typeof chunk === "string" ? chunk : decoder.write(chunk)));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        processRecords(this, [...parser.push(decoder.end()), ...parser.end()]);
+        if (seen) report.duplicates = collectDuplicates(seen);
+        this.emit("report", report);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+/**
+ * Valida as colunas de documentos de um arquivo CSV ou NDJSON e retorna o relatório da validação.
+ * 
+ * @param input - O conteúdo do arquivo, como uma string ou uma stream de leitura.
+ * @param {BatchValidationOptions} options - As mesmas opções aceitas por `createValidationStream`.
+ * @param output - Stream opcional em que o conteúdo com as colunas de resultado é escrito.
+ * 
+ * @returns {Promise<BatchReport>} O relatório da validação.
+ * 
+ * @example
+ * const report = await validateBatch(fs.createReadStream("clientes.ndjson"), {
+ *   format: "ndjson",
+ *   columns: { cpf: "cpf", cnpjEmpresa: "cnpj" },
+ * });
+ * console.log(report.failures, report.invalidRowNumbers);
+ */
+async function validateBatch(
+  input: string | Iterable<string | Buffer> | AsyncIterable<string | Buffer>,
+  options: BatchValidationOptions,
+  output?: Writable
+): Promise<BatchReport> {
+  const stream = createValidationStream(options);
+  let report: BatchReport | undefined;
+  stream.on("report", (result: BatchReport) => (report = result));
+
+  const source = Readable.from(typeof input === "string" ? [input] : input);
+  if (output) {
+    await pipeline(source, stream, output);
+  } else {
+    await pipeline(source, stream, async function (lines: AsyncIterable<string>) {
+      for await (const _ of lines);
+    });
+  }
+
+  return report!;
+}
+
+/**
+ * Cria um leitor incremental de CSV, compatível com campos entre aspas que contêm separadores, aspas
+ * duplicadas e quebras de linha.
+ * 
+ * @param delimiter - O separador das colunas.
+ * 
+ * @returns Um leitor cujo método `push` recebe um trecho do arquivo e retorna os registros completos, e cujo
+ * método `end` retorna o último registro, se houver. Linhas vazias são ignoradas.
+ * 
+ * @example
+ * const parser = createCSVParser(",");
+ * parser.push('nome,cpf\n"Silva, Ana",295'); // [{ fields: ["nome", "cpf"], line: 1 }]
+ * parser.end(); // [{ fields: ["Silva, Ana", "295"], line: 2 }]
+ */
+function createCSVParser(delimiter: string) {
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let closedQuote = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const finishRecord = (records: ParsedRecord[]) => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") records.push({ fields, line: recordLine });
+    fields = [];
+    field = "";
+    closedQuote = false;
+  };
+
+  return {
+    push(text: string): ParsedRecord[] {
+      const records: ParsedRecord[] = [];
+
+      for (const char of text) {
+        if (quoted) {
+          if (char === '"') {
+            quoted = false;
+            closedQuote = true;
+          } else {
+            if (char === "\n") line++;
+            field += char;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          if (closedQuote) field += '"';
+          quoted = field === "" || closedQuote;
+          closedQuote = false;
+          if (!quoted) field += char;
+        } else if (char === delimiter) {
+          fields.push(field);
+          field = "";
+          closedQuote = false;
+        } else if (char === "\n") {
+          finishRecord(records);
+          recordLine = ++line;
+        } else if (char !== "\r") {
+          field += char;
+          closedQuote = false;
+        }
+      }
+
+      return records;
+    },
+    end(): ParsedRecord[] {
+      const records: ParsedRecord[] = [];
+      if (field !== "" || fields.length > 0) finishRecord(records);
+      return records;
+    },
+  };
+}
+
+/**
+ * Cria um leitor incremental de NDJSON, que separa o arquivo em linhas.
+ * 
+ * @returns Um leitor cujo método `push` recebe um trecho do arquivo e retorna as linhas completas, cada uma
+ * como um registro com um único campo, e cujo método `end` retorna a última linha, se houver. Linhas vazias
+ * são ignoradas.
+ * 
+ * @example
+ * const parser = createNDJSONParser();
+ * parser.push('{"cpf":"29537995593"}\n{"cpf"'); // [{ fields: ['{"cpf":"29537995593"}'], line: 1 }]
+ */
+function createNDJSONParser() {
+  let buffer = "";
+  let line = 0;
+
+  const toRecords = (lines: string[]) =>
+    lines
+      .map((text) => ({ fields: [text.trim()], line: ++line }))
+      .filter((record) => record.fields[0] !== "");
+
+  return {
+    push(text: string): ParsedRecord[] {
+      const lines = (buffer + text).split("\n");
+      buffer = lines.pop()!;
+      return toRecords(lines);
+    },
+    end(): ParsedRecord[] {
+      const records = toRecords([buffer]);
+      buffer = "";
+      return records;
+    },
+  };
+}
+
+/**
+ * Registra a linha em que um documento aparece, mantendo uma lista apenas para os documentos repetidos.
+ * 
+ * @param seen - As linhas em que cada documento da coluna já apareceu.
+ * @param value - O documento, sem formatação.
+ * @param line - O número da linha.
+ * 
+ * @example
+ * trackDuplicate(seen, "29537995593", 2);
+ */
+function trackDuplicate(seen: Map<string, number | number[]>, value: string, line: number): void {
+  const rows = seen.get(value);
+  if (rows === undefined) seen.set(value, line);
+  else if (typeof rows === "number") seen.set(value, [rows, line]);
+  else rows.push(line);
+}
+
+/**
+ * Reúne os documentos que aparecem em mais de um registro.
+ * 
+ * @param seen - As linhas em que cada documento aparece, por coluna.
+ * 
+ * @returns Os documentos repetidos, com a coluna e as linhas em que aparecem.
+ * 
+ * @example
+ * collectDuplicates(seen); // [{ column: "cpf", value: "29537995593", rows: [2, 5] }]
+ */
+function collectDuplicates(seen: Map<string, Map<string, number | number[]>>): BatchReport["duplicates"] {
+  return [...seen].flatMap(([column, values]) =>
+    [...values]
+      .filter((entry): entry is [string, number[]] => Array.isArray(entry[1]))
+      .map(([value, rows]) => ({ column, value, rows }))
+  );
+}
+
+/**
+ * Converte os campos de um registro em uma linha de CSV, colocando entre aspas os campos que contêm o
+ * separador, aspas ou quebras de linha.
+ * 
+ * @param fields - Os campos do registro.
+ * @param delimiter - O separador das colunas.
+ * 
+ * @returns {string} A linha de CSV, terminada por uma quebra de linha.
+ * 
+ * @example
+ * // Retorna '"Silva, Ana",29537995593\n'
+ * toCSVLine(["Silva, Ana", "29537995593"], ",");
+ */
+function toCSVLine(fields: string[], delimiter: string): string {
+  const escaped = fields.map((field) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+  );
+  return `${escaped.join(delimiter)}\n`;
+}
+
+export { createValidationStream, validateBatch };
@@ -0,0 +1,94 @@
+import { Readable } from "stream";
+
+/**
+ * Quantidade máxima de tentativas consecutivas sem gerar um documento inédito.
+ */
+const MAX_DUPLICATE_ATTEMPTS = 1000;
+
+/**
+ * Gera uma sequência de documentos sem repetições.
+ * 
+ * Os documentos são gerados sob demanda, à medida que a sequência é consumida, e apenas os valores
+ * já gerados são mantidos em memória para garantir a unicidade.
+ * 
+ * @param count - A quantidade de documentos a serem gerados.
+ * @param next - Função que gera um documento sem formatação.
+ * @param format - Função opcional aplicada a cada documento antes de ser retornado.
+ * 
+ * @returns {IterableIterator<string>} Um iterador com `count` documentos distintos.
+ * 
+ * @throws {Error} Se `count` não for um inteiro não negativo ou se não for possível gerar documentos inéditos.
+ * 
+ * @example
+ * // Retorna um iterador com 3 CPFs distintos
+ * generateUnique(3, () => cpf.generate());
+ */
+function generateUnique(
+  count: number,
+  next: () => string,
+  format?: (document: string) => string
+): IterableIterator<string> {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error("A quantidade de documentos deve ser um número inteiro não negativo");
+  }
+
+  return iterateUnique(count, next, format);
+}
+
+/**
+ * Implementação de `generateUnique`, separada para que a validação dos parâmetros ocorra na chamada
+ * e não apenas no início da iteração.
+ * 
+ * @param count - A quantidade de documentos a serem gerados.
+ * @param next - Função que gera um documento sem formatação.
+ * @param format - Função opcional aplicada a cada documento antes de ser retornado.
+ * 
+ * @returns {IterableIterator<string>} Um iterador com `count` documentos distintos.
+ * 
+ * @example
+ * iterateUnique(3, () => cpf.generate());
+ */
+function* iterateUnique(
+  count: number,
+  next: () => string,
+  format?: (document: string) => string
+): IterableIterator<string> {
+  const generated = new Set<string>();
+  let attempts = 0;
+
+  while (generated.size < count) {
+    const document = next();
+
+    if (generated.has(document)) {
+      if (++attempts >= MAX_DUPLICATE_ATTEMPTS) {
+        throw new Error("Não foi possível gerar a quantidade solicitada de documentos distintos");
+      }
+      continue;
+    }
+
+    attempts = 0;
+    generated.add(document);
+    yield format ? format(document) : document;
+  }
+}
+
+/**
+ * Converte uma sequência de documentos em uma stream de leitura do Node.js, com um documento por linha.
+ * 
+ * @param documents - A sequência de documentos.
+ * 
+ * @returns {Readable} Uma stream que emite cada documento seguido de uma quebra de linha.
+ * 
+ * @example
+ * toStream(generateUnique(3, () => cpf.generate())).pipe(process.stdout);
+ */
+function toStream(documents: Iterable<string>): Readable {
+  return Readable.from(
+    (function* () {
+      for (const document of documents) yield `${document}\n`;
+    })(),
+    { objectMode: false }
+  );
+}
+
+export { generateUnique, toStream };
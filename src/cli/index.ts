@@ -0,0 +1,261 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import cpf from "../cpf";
+import cnpj from "../cnpj";
+import document from "../document";
+import { DocumentValidationResult } from "../types";
+
+/**
+ * Streams utilizadas pela linha de comando. Podem ser substituídas para executar os comandos em testes.
+ */
+interface CLIStreams {
+  stdin: AsyncIterable<string | Buffer>;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+type CLIOptions = ReturnType<typeof parseOptions>["values"];
+
+const USAGE = `Uso: cpf-cnpj <comando> [opções] [valores...]
+
+Comandos:
+  validate [valores...]  Valida CPFs e CNPJs. Sem valores, lê um documento por linha da entrada padrão.
+                         O código de saída é 0 se todos forem válidos e 1 caso contrário.
+  generate               Gera documentos válidos e distintos.
+  format [valores...]    Formata CPFs e CNPJs.
+  clean [valores...]     Remove a formatação de CPFs e CNPJs.
+
+Opções:
+  --type <tipo>          validate: cpf ou cnpj (padrão: identifica automaticamente).
+                         generate: cpf, cnpj ou cnpj-alfanumeric (padrão: cpf).
+  --count <n>            Quantidade de documentos gerados (padrão: 1).
+  --formatted            Gera documentos formatados.
+  --seed <semente>       Semente para uma geração reproduzível. Sementes numéricas geram os mesmos
+                         documentos que a opção seed da API com o mesmo número.
+  --json                 Escreve um objeto JSON por linha.
+  --help                 Exibe esta ajuda.
+`;
+
+/**
+ * Executa a linha de comando `cpf-cnpj`.
+ * 
+ * @param args - Os argumentos da linha de comando, sem o executável e o nome do script.
+ * @param streams - As streams de entrada e saída. O padrão são as streams do processo.
+ * 
+ * @returns {Promise<number>} O código de saída: 0 em caso de sucesso, 1 se algum documento for inválido
+ * e 2 se os argumentos forem inválidos.
+ * 
+ * @example
+ * // Escreve "29537995593" e retorna 0
+ * await run(["clean", "295.379.955-93"]);
+ */
+async function run(args: string[], streams: CLIStreams = process): Promise<number> {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(args);
+  } catch (error) {
+    streams.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values: options, positionals } = parsed;
+  const [command, ...inputs] = positionals;
+
+  if (options.help || !command) {
+    (options.help ? streams.stdout : streams.stderr).write(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  try {
+    switch (command) {
+      case "validate":
+        return validate(await readValues(inputs, streams), options, streams);
+      case "generate":
+        return generate(options, streams);
+      case "format":
+      case "clean":
+        return transform(command, await readValues(inputs, streams), options, streams);
+      default:
+        throw new Error(`Comando desconhecido: ${command}`);
+    }
+  } catch (error) {
+    streams.stderr.write(`${(error as Error).message}\n`);
+    return 2;
+  }
+}
+
+/**
+ * Interpreta os argumentos da linha de comando.
+ * 
+ * @param args - Os argumentos da linha de comando.
+ * 
+ * @returns As opções e os argumentos posicionais (comando e valores).
+ * 
+ * @throws {Error} Se uma opção desconhecida for informada ou se `--count` não for um número inteiro positivo.
+ * 
+ * @example
+ * parseOptions(["generate", "--count", "3"]);
+ */
+function parseOptions(args: string[]) {
+  const parsed = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      type: { type: "string" },
+      count: { type: "string" },
+      formatted: { type: "boolean" },
+      seed: { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const { count } = parsed.values;
+  if (count !== undefined && !/^[1-9]\d*$/.test(count)) {
+    throw new Error(`Quantidade inválida: ${count}. Informe um número inteiro positivo.`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Valida os documentos e escreve o resultado de cada um.
+ * 
+ * @param values - Os documentos a serem validados.
+ * @param options - As opções da linha de comando.
+ * @param streams - As streams de saída.
+ * 
+ * @returns {number} 0 se todos os documentos forem válidos e 1 caso contrário.
+ * 
+ * @throws {Error} Se o tipo informado não for `cpf` nem `cnpj`.
+ * 
+ * @example
+ * // Escreve "295.379.955-93	válido"
+ * validate(["295.379.955-93"], {}, process);
+ */
+function validate(values: string[], options: CLIOptions, streams: CLIStreams): number {
+  const validators: Record<string, (value: string) => DocumentValidationResult> = {
+    cpf: cpf.validate,
+    cnpj: cnpj.validate,
+    auto: document.validate,
+  };
+  const type = options.type ?? "auto";
+  if (!Object.prototype.hasOwnProperty.call(validators, type)) {
+    throw new Error(`Tipo inválido para validate: ${options.type}`);
+  }
+  const validator = validators[type];
+
+  let allValid = true;
+  for (const value of values) {
+    const result = validator(value);
+    allValid &&= result.valid;
+
+    if (options.json) {
+      streams.stdout.write(`${JSON.stringify({ input: value, ...result })}\n`);
+    } else {
+      const status = result.valid ? "válido" : `inválido\t${result.reason}`;
+      streams.stdout.write(`${value}\t${status}\n`);
+    }
+  }
+
+  return allValid ? 0 : 1;
+}
+
+/**
+ * Gera documentos distintos e escreve um por linha.
+ * 
+ * @param options - As opções da linha de comando.
+ * @param streams - As streams de saída.
+ * 
+ * @returns {number} 0, o código de sucesso.
+ * 
+ * @throws {Error} Se o tipo ou a quantidade forem inválidos.
+ * 
+ * @example
+ * // Escreve 3 CNPJs alfanuméricos formatados
+ * generate({ type: "cnpj-alfanumeric", count: "3", formatted: true }, process);
+ */
+function generate(options: CLIOptions, streams: CLIStreams): number {
+  const count = Number(options.count ?? 1);
+  // Sementes numéricas são convertidas para número, para gerar os mesmos documentos que a API com `seed: 42`
+  const seed = options.seed !== undefined && /^\d+$/.test(options.seed) ? Number(options.seed) : options.seed;
+  const generateOptions = { formatted: options.formatted, seed };
+
+  let documents: IterableIterator<string>;
+  switch (options.type ?? "cpf") {
+    case "cpf":
+      documents = cpf.generateMany(count, generateOptions);
+      break;
+    case "cnpj":
+      documents = cnpj.generateMany(count, { ...generateOptions, type: "numeric" });
+      break;
+    case "cnpj-alfanumeric":
+      documents = cnpj.generateMany(count, { ...generateOptions, type: "alfanumeric" });
+      break;
+    default:
+      throw new Error(`Tipo inválido para generate: ${options.type}`);
+  }
+
+  for (const value of documents) {
+    const line = options.json ? JSON.stringify({ value, kind: document.detect(value) }) : value;
+    streams.stdout.write(`${line}\n`);
+  }
+
+  return 0;
+}
+
+/**
+ * Formata ou remove a formatação dos documentos e escreve um por linha.
+ * 
+ * @param command - O comando: `format` ou `clean`.
+ * @param values - Os documentos.
+ * @param options - As opções da linha de comando.
+ * @param streams - As streams de saída.
+ * 
+ * @returns {number} 0, o código de sucesso.
+ * 
+ * @example
+ * // Escreve "295.379.955-93"
+ * transform("format", ["29537995593"], {}, process);
+ */
+function transform(command: "format" | "clean", values: string[], options: CLIOptions, streams: CLIStreams): number {
+  for (const value of values) {
+    const output = command === "format" ? document.format(value) : document.clean(value);
+    const line = options.json ? JSON.stringify({ input: value, output }) : output;
+    streams.stdout.write(`${line}\n`);
+  }
+
+  return 0;
+}
+
+/**
+ * Retorna os valores informados como argumentos ou, se não houver nenhum, as linhas não vazias da entrada padrão.
+ * 
+ * @param inputs - Os valores informados como argumentos.
+ * @param streams - As streams de entrada.
+ * 
+ * @returns {Promise<string[]>} Os valores, sem espaços nas extremidades.
+ * 
+ * @example
+ * // Com "295.379.955-93\n25.143.815/0001-50\n" na entrada padrão
+ * await readValues([], process); // ["295.379.955-93", "25.143.815/0001-50"]
+ */
+async function readValues(inputs: string[], streams: CLIStreams): Promise<string[]> {
+  if (inputs.length > 0) return inputs;
+
+  let content = "";
+  for await (const chunk of streams.stdin) content += chunk.toString();
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
+
+export { run };
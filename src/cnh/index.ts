@@ -0,0 +1,172 @@
+import { CNH_LENGTH, MAX_GENERATE_ATTEMPTS } from "../constants";
+import { resolveRandom } from "../random";
+import { RandomOptions, RandomSource, ValidationResult } from "../types";
+
+interface CNHOptions extends RandomOptions {
+  formatted?: boolean;
+}
+
+/**
+ * Gera um número de registro de CNH.
+ * 
+ * Esta função gera uma CNH válida. A CNH gerada pode ser retornada com ou sem a formatação.
+ * 
+ * @param {CNHOptions} [options] - Opções para a geração da CNH.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna a CNH formatada (XXXXXXXXX-XX).
+ * Caso contrário, retorna a CNH sem formatação (apenas números).
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
+ * 
+ * @returns {string} A CNH gerada, podendo ser formatada ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a fonte de números aleatórios gerar apenas números inválidos (ex: uma função que
+ * retorna sempre o mesmo valor), após um número limitado de tentativas.
+ * 
+ * @example
+ * // Retorna uma CNH sem formatação, como '02650306461'
+ * generate();
+ * 
+ * @example
+ * // Retorna uma CNH formatada, como '026503064-61'
+ * generate({ formatted: true });
+ */
+export function generate(options?: CNHOptions): string {
+  const random = resolveRandom(options);
+
+  for (let attempt = 0; attempt < MAX_GENERATE_ATTEMPTS; attempt++) {
+    const baseCNH = generateBaseCNH(random);
+    const cnh = [...baseCNH, ...(calculateCheckDigits(baseCNH) ?? [])].join("");
+    if (isValid(cnh)) return options?.formatted ? format(cnh) : cnh;
+  }
+
+  throw new Error("Não foi possível gerar uma CNH válida com a fonte de números aleatórios informada");
+}
+
+/**
+ * Valida um número de registro de CNH.
+ * 
+ * A função limpa a string da CNH, verifica o formato e calcula os dois dígitos verificadores
+ * para garantir que a CNH fornecida seja válida.
+ * 
+ * @param cnh - A CNH a ser validada, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se a CNH for válida e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true se a CNH for válida
+ * isValid("026503064-61");
+ * 
+ * // Retorna false se a CNH for inválida
+ * isValid("026503064-62");
+ */
+export function isValid(cnh: string): boolean {
+  return validate(cnh).valid;
+}
+
+/**
+ * Valida um número de registro de CNH e retorna o resultado detalhado da validação.
+ * 
+ * @param cnh - A CNH a ser validada, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ValidationResult} O resultado da validação. Quando nenhuma CNH com a mesma base é válida,
+ * o motivo é `secondCheckDigit` e `expectedCheckDigits` é `null`.
+ * 
+ * @example
+ * // Retorna { valid: false, value: "02650306462", kind: "cnh", reason: "secondCheckDigit", expectedCheckDigits: "61" }
+ * validate("026503064-62");
+ */
+export function validate(cnh: string): ValidationResult {
+  const cleanedCNH = cnh.replace(/\D/g, "");
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedCNH,
+    kind: "cnh",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (cleanedCNH.length !== CNH_LENGTH) {
+    result.reason = /[a-zA-Z]/.test(cnh) ? "invalidCharacter" : "invalidLength";
+    return result;
+  }
+
+  const digits = cleanedCNH.split("").map(Number);
+  const checkDigits = calculateCheckDigits(digits.slice(0, 9));
+  result.expectedCheckDigits = checkDigits && checkDigits.join("");
+
+  if (/^(\d)\1+$/.test(cleanedCNH)) {
+    result.reason = "repeatedDigits";
+  } else if (checkDigits && checkDigits[0] !== digits[9]) {
+    result.reason = "firstCheckDigit";
+  } else if (!checkDigits || checkDigits[1] !== digits[10]) {
+    result.reason = "secondCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Gera uma base aleatória de CNH com 9 dígitos numéricos.
+ * 
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {number[]} Um array de 9 números inteiros, representando a base de uma CNH.
+ * 
+ * @example
+ * // Exemplo de retorno: [0, 2, 6, 5, 0, 3, 0, 6, 4]
+ * generateBaseCNH(Math.random);
+ */
+function generateBaseCNH(random: RandomSource): number[] {
+  return Array.from({ length: 9 }, () => Math.floor(random() * 10));
+}
+
+/**
+ * Calcula os dois dígitos verificadores de uma CNH.
+ * 
+ * O primeiro dígito é o resto da divisão por 11 da soma da base multiplicada pelos pesos de 9 a 1, e o
+ * segundo é o resto da soma com os pesos de 1 a 9. Um resto igual ou maior que 10 resulta no dígito 0;
+ * quando isso acontece no primeiro dígito, o segundo é reduzido em 2.
+ * 
+ * @param numbers - Um array com os 9 dígitos da base da CNH.
+ * 
+ * @returns {number[] | null} Um array com os dois dígitos verificadores, ou `null` se o segundo dígito
+ * ficar negativo, o que significa que nenhuma CNH com essa base é válida.
+ * 
+ * @example
+ * // Retorna [6, 1]
+ * calculateCheckDigits([0, 2, 6, 5, 0, 3, 0, 6, 4]);
+ */
+function calculateCheckDigits(numbers: number[]): number[] | null {
+  const firstRemainder = numbers.reduce((acc, num, index) => acc + num * (9 - index), 0) % 11;
+  const secondRemainder = numbers.reduce((acc, num, index) => acc + num * (index + 1), 0) % 11;
+  const discount = firstRemainder >= 10 ? 2 : 0;
+  const secondDigit = secondRemainder >= 10 ? 0 : secondRemainder - discount;
+
+  if (secondDigit < 0) return null;
+  return [firstRemainder >= 10 ? 0 : firstRemainder, secondDigit];
+}
+
+/**
+ * Formata uma CNH separando os dígitos verificadores: XXXXXXXXX-XX.
+ * 
+ * @param cnh - A CNH a ser formatada, que deve estar no formato numérico (sem pontuação).
+ * 
+ * @returns {string} A CNH formatada no padrão XXXXXXXXX-XX.
+ * 
+ * @example
+ * // Retorna "026503064-61"
+ * format("02650306461");
+ */
+function format(cnh: string): string {
+  return cnh.replace(/(\d{9})(\d{2})/, "$1-$2");
+}
+
+export default {
+  generate,
+  isValid,
+  validate,
+  format,
+};
@@ -1,4 +1,6 @@
-import { ALPHABET, CNPJ_LENGTH } from "../constants";
+import { ALPHABET } from "../constants";
+import { RandomSource } from "../types";
+import { cleanCNPJ } from "./clean";
 
 /**
  * Gera um CNPJ alfanumérico válido.
@@ -6,14 +8,16 @@ import { ALPHABET, CNPJ_LENGTH } from "../constants";
  * Esta função gera um CNPJ alfanumérico válido. O CNPJ gerado é composto por uma base alfanumérica
  * e os dois dígitos verificadores calculados com base nela.
  * 
+ * @param random - A fonte de números aleatórios. O padrão é `Math.random`.
+ * 
  * @returns {string} O CNPJ alfanumérico gerado, como uma string de 14 caracteres, contendo letras e números, sem formatação.
  * 
  * @example
  * // Retorna um CNPJ alfanumérico válido, como 'OGZP0N77444Y42'
  * generateAlphanumeric();
  */
-function generateAlphanumeric(): string {
-  const baseCNPJ = generateBaseAlphanumeric();
+function generateAlphanumeric(random: RandomSource = Math.random): string {
+  const baseCNPJ = generateBaseAlphanumeric(random);
   const [firstDigit, secondDigit] = calculateCheckDigits(baseCNPJ);
   const alphanumericCNPJ = [...baseCNPJ, firstDigit, secondDigit];
   return alphanumericCNPJ.join("");
@@ -26,6 +30,8 @@ function generateAlphanumeric(): string {
  * sendo que cada posição pode conter um número (de 0 a 9) ou uma letra (A-Z).
  * A escolha entre número e letra é feita aleatoriamente para cada posição.
  * 
+ * @param random - A fonte de números aleatórios. O padrão é `Math.random`.
+ * 
  * @returns {(number | string)[]} Um array de 12 elementos, que podem ser números ou letras,
  * representando a base alfanumérica do CNPJ.
  * 
@@ -33,15 +39,15 @@ function generateAlphanumeric(): string {
  * // Retorna algo como [2, 'F', 5, 'G', 8, 'B', 0, 'A', 1, 'C', 3, 'D']
  * generateBaseAlphanumeric();
  */
-function generateBaseAlphanumeric(): (number | string)[] {
+function generateBaseAlphanumeric(random: RandomSource = Math.random): (number | string)[] {
   const base = [];
   for (let i = 0; i < 12; i++) {
-    const randomChoice = Math.random() < 0.5;
+    const randomChoice = random() < 0.5;
     if (randomChoice) {
-      base.push(Math.floor(Math.random() * 10));
+      base.push(Math.floor(random() * 10));
     } else {
       const letter = ALPHABET.charAt(
-        Math.floor(Math.random() * ALPHABET.length)
+        Math.floor(random() * ALPHABET.length)
       );
       base.push(letter);
     }
@@ -71,19 +77,21 @@ function calculateCheckDigits(baseCNPJ: (number | string)[]): number[] {
 }
 
 /**
- * Calcula os dois dígitos verificadores de um CNPJ.
+ * Calcula um dígito verificador de um CNPJ pelo módulo 11, conforme a especificação da Receita Federal.
  * 
- * A função utiliza a base do CNPJ e calcula os dois dígitos verificadores necessários
- * para completar o número do CNPJ. O primeiro dígito é calculado com a base original,
- * e o segundo dígito é calculado após a adição do primeiro dígito.
+ * Cada caractere é convertido pelo seu valor (`charValue`) e multiplicado por um peso, de 2 a 9, atribuído
+ * da direita para a esquerda e reiniciado a cada 8 posições. Se o resto da divisão da soma por 11 for
+ * menor que 2, o dígito verificador é 0; caso contrário, é 11 menos o resto.
  * 
- * @param baseCNPJ - A base do CNPJ, composta por números ou letras, sem os dígitos verificadores.
+ * @param digits - Os caracteres da base do CNPJ, como números ou letras maiúsculas.
  * 
- * @returns {number[]} Um array com os dois dígitos verificadores do CNPJ.
+ * @returns {number} O dígito verificador calculado.
+ * 
+ * @throws {Error} Se algum caractere não for um dígito ou uma letra maiúscula.
  * 
  * @example
- * // Retorna algo como [5, 8]
- * calculateCheckDigits([2, 'F', 5, 'G', 8, 'B', 0, 'A', 1, 'C', 3, 'D']);
+ * // Retorna 3 (soma ponderada 459)
+ * calculateCheckDigit([1, 2, "A", "B", "C", 3, 4, 5, 0, 1, "D", "E"]);
  */
 function calculateCheckDigit(digits: (number | string)[]): number {
   let sum = 0;
@@ -91,8 +99,7 @@ function calculateCheckDigit(digits: (number | string)[]): number {
 
   for (let i = digits.length - 1; i >= 0; i--) {
     const digit = digits[i];
-    const numericDigit =
-      typeof digit === "string" ? convertLetterToNumber(digit) : digit;
+    const numericDigit = typeof digit === "string" ? charValue(digit) : digit;
     sum += numericDigit * weight;
     weight = weight === 9 ? 2 : weight + 1;
   }
@@ -102,58 +109,37 @@ function calculateCheckDigit(digits: (number | string)[]): number {
 }
 
 /**
- * Calcula o dígito verificador de um CNPJ ou CPF a partir dos números ou letras fornecidos.
+ * Retorna o valor de um caractere de CNPJ alfanumérico, conforme a especificação da Receita Federal.
  * 
- * A função utiliza a soma ponderada dos números, considerando o peso de cada posição,
- * e aplica a fórmula do módulo 11 para calcular o dígito verificador.
- * Caso o resto da divisão seja menor que 2, o dígito verificador será 0, caso contrário,
- * o dígito será 11 menos o resto.
+ * O valor é o código ASCII do caractere menos 48: os dígitos de 0 a 9 mantêm o próprio valor e as letras
+ * maiúsculas de A a Z valem de 17 a 42. Qualquer outro caractere, incluindo letras minúsculas, é rejeitado:
+ * a conversão para maiúsculas deve ser feita antes do cálculo.
  * 
- * @param digits - Um array de números ou letras que representam a base do CNPJ ou CPF.
+ * @param char - O caractere, um dígito ou uma letra maiúscula.
  * 
- * @returns {number} O dígito verificador calculado.
+ * @returns {number} O valor do caractere.
+ * 
+ * @throws {Error} Se o caractere não for um dígito ou uma letra maiúscula.
  * 
  * @example
- * // Retorna 5
- * calculateCheckDigit([2, 5, 1, 4, 3, 8, 1, 5, 0, 0, 1, 5]);
+ * charValue("7"); // 7
+ * charValue("A"); // 17
+ * charValue("Z"); // 42
  */
-function convertLetterToNumber(digit: string): number {
-  const letterMap: { [key: string]: number } = {
-    A: 17,
-    B: 18,
-    C: 19,
-    D: 20,
-    E: 21,
-    F: 22,
-    G: 23,
-    H: 24,
-    I: 25,
-    J: 26,
-    K: 27,
-    L: 28,
-    M: 29,
-    N: 30,
-    O: 31,
-    P: 32,
-    Q: 33,
-    R: 34,
-    S: 35,
-    T: 36,
-    U: 37,
-    V: 38,
-    W: 39,
-    X: 40,
-    Y: 41,
-    Z: 42,
-  };
-  return letterMap[digit] || 0;
+function charValue(char: string): number {
+  if (!/^[0-9A-Z]$/.test(char)) {
+    throw new Error(`Caractere inválido no CNPJ: ${char}`);
+  }
+
+  return char.charCodeAt(0) - 48;
 }
 
 /**
  * Valida um CNPJ alfanumérico através dos dígitos verificadores.
  * 
- * A função converte o CNPJ alfanumérico em uma sequência de números, calcula os dígitos verificadores
- * e os compara com os dois últimos dígitos do CNPJ fornecido para garantir sua validade.
+ * A pontuação é removida e as letras minúsculas são convertidas para maiúsculas. Em seguida, o CNPJ deve
+ * conter 12 caracteres alfanuméricos na base e 2 dígitos numéricos como dígitos verificadores, que são
+ * comparados com os dígitos calculados.
  * 
  * @param cnpj - O CNPJ alfanumérico a ser validado, que pode estar no formato com ou sem pontuação.
  * 
@@ -161,35 +147,41 @@ function convertLetterToNumber(digit: string): number {
  * 
  * @example
  * // Retorna true se o CNPJ alfanumérico for válido
- * validateAlfanumeric("OGZP0N77444Y42");
+ * validateAlphanumeric("12.abc.345/01de-35");
  * 
- * // Retorna false se o CNPJ alfanumérico for inválido
- * validateAlfanumeric("OGZP0N77444Y40");
+ * // Retorna false se os dígitos verificadores contiverem letras
+ * validateAlphanumeric("12ABC34501DE3A");
  */
 function validateAlphanumeric(cnpj: string): boolean {
-  const digits = convertCnpj(cnpj.length === CNPJ_LENGTH ? cnpj.slice(0, 12) : cnpj);
-  const [dv1, dv2] = calculateCheckDigits(digits);
-  const twoFinalDigitsOriginal = parseInt(cnpj.slice(-2));
-  const twoFinalDigitsCalculated = parseInt(`${dv1}${dv2}`);
-  return twoFinalDigitsOriginal === twoFinalDigitsCalculated;
+  const cleanedCNPJ = cleanCNPJ(cnpj);
+  if (!/^[0-9A-Z]{12}[0-9]{2}$/.test(cleanedCNPJ)) return false;
+
+  const [firstDigit, secondDigit] = calculateCheckDigits(convertCnpj(cleanedCNPJ.slice(0, 12)));
+  return cleanedCNPJ.slice(12) === `${firstDigit}${secondDigit}`;
 }
 
 /**
- * Converte um CNPJ alfanumérico para um array de números, onde as letras são convertidas para números 
- * de acordo com uma tabela de mapeamento definida.
+ * Converte os caracteres de um CNPJ alfanumérico nos seus valores, conforme `charValue`.
+ * 
+ * @param cnpj - O CNPJ alfanumérico, ou parte dele, sem pontuação e com letras maiúsculas.
  * 
- * @param cnpj - O CNPJ alfanumérico a ser convertido (ex: "OG.ZP0.N77/444Y-42").
+ * @returns {number[]} Os valores dos caracteres.
  * 
- * @returns {number[]} Retorna um array de números representando o CNPJ, com as letras convertidas para números.
+ * @throws {Error} Se algum caractere não for um dígito ou uma letra maiúscula.
  * 
  * @example
- * convertCnpj("OG.ZP0.N77/444Y-42"); 
- * // Retorna: [31, 32, 0, 15, 29, 42, 0, 39, 7, 7, 4, 4, 4, 31, 42]
+ * convertCnpj("12ABC34501DE");
+ * // Retorna: [1, 2, 17, 18, 19, 3, 4, 5, 0, 1, 20, 21]
  */
 function convertCnpj(cnpj: string): number[] {
-  return Array.from(cnpj).map((item) =>
-    isNaN(Number(item)) ? convertLetterToNumber(item) : +item
-  );
+  return Array.from(cnpj).map(charValue);
 }
 
-export { generateAlphanumeric, validateAlphanumeric, convertCnpj };
+export {
+  charValue,
+  generateAlphanumeric,
+  generateBaseAlphanumeric,
+  validateAlphanumeric,
+  convertCnpj,
+  calculateCheckDigits,
+};
@@ -0,0 +1,20 @@
+/**
+ * Remove a pontuação e os demais símbolos de um CNPJ (numérico ou alfanumérico) e converte as letras
+ * para maiúsculas.
+ * 
+ * É a forma canônica utilizada na validação, na comparação e no agrupamento de CNPJs. Letras e dígitos fora
+ * do alfabeto do CNPJ (ex: `Ç`) são mantidos, para que a validação os rejeite como caracteres inválidos.
+ * 
+ * @param cnpj - O CNPJ, com ou sem pontuação.
+ * 
+ * @returns {string} O CNPJ sem pontuação e com letras maiúsculas.
+ * 
+ * @example
+ * // Retorna "12ABC34501DE35"
+ * cleanCNPJ("12.abc.345/01de-35");
+ */
+function cleanCNPJ(cnpj: string): string {
+  return cnpj.replace(/[^\p{L}\p{N}]/gu, "").toUpperCase();
+}
+
+export { cleanCNPJ };
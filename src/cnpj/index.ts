@@ -1,10 +1,52 @@
-import { generateNumeric, validateNumeric } from "./numeric";
-import { generateAlphanumeric, validateAlphanumeric } from "./alfanumeric";
-import { CNPJ_LENGTH } from "../constants";
+import { Readable } from "stream";
+import { generateNumeric, generateBaseNumeric } from "./numeric";
+import { cleanCNPJ } from "./clean";
+import {
+  generateAlphanumeric,
+  generateBaseAlphanumeric,
+  convertCnpj,
+  calculateCheckDigits as calculateAlphanumericCheckDigits,
+} from "./alfanumeric";
+import { ALPHABET, CNPJ_HEADQUARTERS_BRANCH, CNPJ_LAYOUT, CNPJ_LENGTH, DIGITS } from "../constants";
+import { generateUnique, toStream } from "../batch";
+import { resolveRandom } from "../random";
+import { maskDocument } from "../mask";
+import { formatPartialDocument } from "../partial";
+import { findSuggestions } from "../suggestion";
+import { matchesStrictFormat } from "../strict";
+import {
+  CNPJ,
+  CNPJRootGroup,
+  FormattedCNPJ,
+  MaskOptions,
+  ParsedCNPJ,
+  PartialFormatResult,
+  RandomOptions,
+  RandomSource,
+  StrictValidationOptions,
+  SuggestionResult,
+  ValidationResult,
+} from "../types";
 
-interface CNPJOptions {
+interface CNPJOptions extends RandomOptions {
   type?: "numeric" | "alfanumeric";
   formatted?: boolean;
+  root?: string;
+  branch?: string | number;
+  headquarters?: boolean;
+}
+
+interface CNPJBatchOptions extends Omit<CNPJOptions, "type"> {
+  type?: CNPJOptions["type"] | "mixed";
+  alfanumericRatio?: number;
+}
+
+interface CNPJBranchesOptions {
+  formatted?: boolean;
+}
+
+interface CNPJCompleteOptions {
+  formatted?: boolean;
 }
 
 /**
@@ -20,8 +62,21 @@ interface CNPJOptions {
  * - `'alfanumeric'`: Gera um CNPJ com caracteres alfanuméricos.
  * Se não for especificado, o padrão será `'numeric'`.
  * @param {boolean} [options.formatted] - Se verdadeiro, retorna o CNPJ formatado. Caso contrário, retorna o CNPJ sem formatação.
+ * @param {string} [options.root] - A raiz do CNPJ (8 caracteres, numérica ou alfanumérica). Se não for especificada,
+ * a raiz é gerada aleatoriamente de acordo com o `type`.
+ * @param {(string | number)} [options.branch] - A ordem do estabelecimento (4 caracteres). Números são completados
+ * com zeros à esquerda. Se não for especificada, a ordem é gerada aleatoriamente de acordo com o `type`.
+ * @param {boolean} [options.headquarters] - Se verdadeiro, força a ordem `0001` (matriz), ignorando `branch`.
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
  * 
- * @returns {string} O CNPJ gerado, podendo ser formatado ou não, conforme as opções fornecidas.
+ * @returns {CNPJ} O CNPJ gerado, podendo ser formatado ou não, conforme as opções fornecidas. Com `formatted: true`,
+ * o tipo retornado é `FormattedCNPJ`.
+ * 
+ * @throws {Error} Se a raiz ou a ordem informadas não tiverem o tamanho correto ou contiverem caracteres inválidos,
+ * ou se a ordem for `0000`. Assim, nunca é gerado o CNPJ `00000000000000`, o único CNPJ com dígitos repetidos
+ * cujos dígitos verificadores conferem.
  * 
  * @example
  * // Retorna um CNPJ clássico numérico sem formatação, como '25143815000150'
@@ -38,17 +93,224 @@ interface CNPJOptions {
  * @example
  * // Retorna um CNPJ alfanumérico formatado, como 'OG.ZP0.N77/444Y-42'
  * generate({ type: 'alfanumeric', formatted: true });
+ * 
+ * @example
+ * // Retorna o CNPJ da matriz da raiz informada: '25143815000150'
+ * generate({ root: '25143815', headquarters: true });
+ * 
+ * @example
+ * // Retorna o CNPJ da filial 0002 da raiz informada: '12ABC345000269'
+ * generate({ root: '12ABC345', branch: 2 });
+ * 
+ * @example
+ * // Retorna sempre o mesmo CNPJ alfanumérico para a mesma semente
+ * generate({ type: 'alfanumeric', seed: 42 });
  */
-function generate(options?: CNPJOptions): string {
+function generate(options: CNPJOptions & { formatted: true }): FormattedCNPJ;
+function generate(options?: CNPJOptions): CNPJ;
+function generate(options?: CNPJOptions): CNPJ {
+  const random = resolveRandom(options);
   let cnpj = "";
 
-  if (options?.type === "alfanumeric") {
-    cnpj = generateAlphanumeric();
+  if (options?.root !== undefined || options?.branch !== undefined || options?.headquarters) {
+    const root = options.root !== undefined
+      ? normalizePart(options.root, 8, "Raiz")
+      : generateBase(options.type, random).slice(0, 8);
+    const branch = options.headquarters
+      ? CNPJ_HEADQUARTERS_BRANCH
+      : options.branch !== undefined
+        ? normalizePart(options.branch, 4, "Ordem")
+        : generateBranch(options.type, random);
+    if (branch === "0000") {
+      throw new Error("Ordem do CNPJ não pode ser 0000");
+    }
+
+    const [firstDigit, secondDigit] = calculateBaseCheckDigits(root + branch);
+    cnpj = `${root}${branch}${firstDigit}${secondDigit}`;
+  } else if (options?.type === "alfanumeric") {
+    cnpj = generateAlphanumeric(random);
   } else {
-    cnpj = generateNumeric();
+    cnpj = generateNumeric(random);
   }
 
-  return options?.formatted ? format(cnpj) : cnpj;
+  return (options?.formatted ? format(cnpj) : cnpj) as CNPJ;
+}
+
+/**
+ * Gera uma sequência de CNPJs distintos.
+ * 
+ * Os CNPJs são gerados sob demanda, à medida que a sequência é consumida, o que permite gerar grandes
+ * quantidades sem montar a lista inteira em memória. A sequência pode ser consumida com `for...of`,
+ * `for await...of` ou convertida em array com `Array.from`.
+ * 
+ * @param count - A quantidade de CNPJs a serem gerados.
+ * @param {CNPJBatchOptions} [options] - As mesmas opções aceitas por `generate`, além de:
+ * @param {('numeric' | 'alfanumeric' | 'mixed')} [options.type] - O tipo dos CNPJs gerados. Com `'mixed'`,
+ * cada CNPJ é numérico ou alfanumérico de acordo com `alfanumericRatio`.
+ * @param {number} [options.alfanumericRatio] - A proporção de CNPJs alfanuméricos, entre 0 e 1, quando o tipo
+ * é `'mixed'`. O padrão é `0.5`.
+ * 
+ * @returns {IterableIterator<string>} Um iterador com `count` CNPJs distintos.
+ * 
+ * @throws {Error} Se `count` não for um número inteiro não negativo ou se `alfanumericRatio` estiver fora do intervalo.
+ * 
+ * @example
+ * // Retorna 4 CNPJs distintos, cerca de um quarto deles alfanuméricos
+ * Array.from(generateMany(4, { type: 'mixed', alfanumericRatio: 0.25 }));
+ */
+function generateMany(count: number, options?: CNPJBatchOptions): IterableIterator<string> {
+  const random = resolveRandom(options);
+  const ratio = options?.alfanumericRatio ?? 0.5;
+
+  if (!(ratio >= 0 && ratio <= 1)) {
+    throw new Error("A proporção de CNPJs alfanuméricos deve estar entre 0 e 1");
+  }
+
+  return generateUnique(
+    count,
+    () => {
+      const type = options?.type === "mixed"
+        ? random() < ratio ? "alfanumeric" : "numeric"
+        : options?.type;
+      return generate({ ...options, type, random, formatted: false });
+    },
+    options?.formatted ? format : undefined
+  );
+}
+
+/**
+ * Gera uma stream de leitura do Node.js com CNPJs distintos, um por linha.
+ * 
+ * @param count - A quantidade de CNPJs a serem gerados.
+ * @param {CNPJBatchOptions} [options] - As mesmas opções aceitas por `generateMany`.
+ * 
+ * @returns {Readable} Uma stream que emite cada CNPJ seguido de uma quebra de linha.
+ * 
+ * @throws {Error} Se `count` não for um número inteiro não negativo ou se `alfanumericRatio` estiver fora do intervalo.
+ * 
+ * @example
+ * // Grava 100.000 CNPJs distintos, numéricos e alfanuméricos, em um arquivo
+ * generateStream(100000, { type: 'mixed' }).pipe(fs.createWriteStream("cnpjs.txt"));
+ */
+function generateStream(count: number, options?: CNPJBatchOptions): Readable {
+  return toStream(generateMany(count, options));
+}
+
+/**
+ * Gera o CNPJ da matriz e das filiais de uma mesma empresa.
+ * 
+ * A função retorna o CNPJ da matriz (ordem `0001`) seguido dos CNPJs de `count` filiais, com as ordens
+ * `0002`, `0003` e assim por diante, todos com a mesma raiz e com os dígitos verificadores corretos.
+ * 
+ * @param root - A raiz do CNPJ (8 caracteres, numérica ou alfanumérica), com ou sem pontuação.
+ * @param count - A quantidade de filiais a serem geradas, além da matriz.
+ * @param {CNPJBranchesOptions} [options] - Opções para a geração dos CNPJs.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna os CNPJs formatados.
+ * 
+ * @returns {string[]} Um array com `count + 1` CNPJs, começando pela matriz.
+ * 
+ * @throws {Error} Se a raiz não tiver 8 caracteres alfanuméricos ou se `count` não for um inteiro entre 0 e 9998.
+ * 
+ * @example
+ * // Retorna ['25143815000150', '25143815000231', '25143815000312']
+ * generateBranches('25.143.815', 2);
+ */
+function generateBranches(root: string, count: number, options?: CNPJBranchesOptions): string[] {
+  if (!Number.isInteger(count) || count < 0 || count > 9998) {
+    throw new Error("A quantidade de filiais deve ser um número inteiro entre 0 e 9998");
+  }
+
+  return Array.from({ length: count + 1 }, (_, index) =>
+    generate({ root, branch: index + 1, formatted: options?.formatted })
+  );
+}
+
+/**
+ * Gera uma base aleatória de 12 caracteres para um CNPJ, de acordo com o tipo informado.
+ * 
+ * @param type - O tipo de CNPJ. Se não for especificado, gera uma base numérica.
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {string} A base do CNPJ, sem os dígitos verificadores.
+ * 
+ * @example
+ * // Retorna algo como "2F5G8B0A1C3D"
+ * generateBase("alfanumeric", Math.random);
+ */
+function generateBase(type: CNPJOptions["type"], random: RandomSource): string {
+  const base = type === "alfanumeric" ? generateBaseAlphanumeric(random) : generateBaseNumeric(random);
+  return base.join("");
+}
+
+/**
+ * Gera uma ordem de estabelecimento aleatória, de acordo com o tipo.
+ * 
+ * Se a ordem gerada for `0000`, que não é uma ordem válida, a ordem da matriz (`0001`) é utilizada no lugar.
+ * 
+ * @param type - O tipo de CNPJ. Se não for especificado, gera uma ordem numérica.
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {string} A ordem do estabelecimento, com 4 caracteres.
+ * 
+ * @example
+ * // Retorna algo como "0A1C"
+ * generateBranch("alfanumeric", Math.random);
+ */
+function generateBranch(type: CNPJOptions["type"], random: RandomSource): string {
+  const branch = generateBase(type, random).slice(8);
+  return branch === "0000" ? CNPJ_HEADQUARTERS_BRANCH : branch;
+}
+
+/**
+ * Normaliza uma parte do CNPJ (raiz ou ordem) informada pelo usuário.
+ * 
+ * Números são completados com zeros à esquerda, a pontuação é removida e as letras são convertidas
+ * para maiúsculas.
+ * 
+ * @param value - A parte do CNPJ a ser normalizada.
+ * @param length - A quantidade de caracteres esperada.
+ * @param label - O nome da parte, utilizado na mensagem de erro.
+ * 
+ * @returns {string} A parte do CNPJ normalizada.
+ * 
+ * @throws {Error} Se a parte não tiver a quantidade de caracteres esperada.
+ * 
+ * @example
+ * // Retorna "0002"
+ * normalizePart(2, 4, "Ordem");
+ */
+function normalizePart(value: string | number, length: number, label: string): string {
+  const part = typeof value === "number"
+    ? String(value).padStart(length, "0")
+    : cleanCNPJ(value);
+
+  if (!new RegExp(`^[A-Z0-9]{${length}}$`).test(part)) {
+    throw new Error(`${label} do CNPJ deve conter ${length} caracteres alfanuméricos`);
+  }
+
+  return part;
+}
+
+/**
+ * Calcula os dois dígitos verificadores para a base de um CNPJ, numérica ou alfanumérica.
+ * 
+ * Conforme a especificação da Receita Federal, o mesmo cálculo é aplicado aos dois tipos de CNPJ: cada
+ * caractere vale o seu código ASCII menos 48, o que mantém o valor dos dígitos do CNPJ numérico. As letras
+ * minúsculas são tratadas como maiúsculas.
+ * 
+ * @param base - A base do CNPJ, com 12 caracteres alfanuméricos e sem pontuação.
+ * 
+ * @returns {number[]} Um array com os dois dígitos verificadores do CNPJ.
+ * 
+ * @example
+ * // Retorna [5, 0]
+ * calculateBaseCheckDigits("251438150001");
+ * 
+ * // Retorna [3, 5]
+ * calculateBaseCheckDigits("12abc34501de");
+ */
+function calculateBaseCheckDigits(base: string): number[] {
+  return calculateAlphanumericCheckDigits(convertCnpj(base.toUpperCase()));
 }
 
 /**
@@ -58,7 +320,10 @@ function generate(options?: CNPJOptions): string {
  * comprimento correto. Dependendo do tipo de CNPJ (numérico ou alfanumérico), a função valida o CNPJ 
  * chamando a função apropriada para cada tipo.
  * 
+ * Em TypeScript, também funciona como type guard: quando retorna `true`, o valor passa a ter o tipo `CNPJ`.
+ * 
  * @param cnpj - O CNPJ a ser validado, que pode estar no formato com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `validate`.
  * 
  * @returns {boolean} Retorna `true` se o CNPJ for válido (numérico ou alfanumérico) e `false` caso contrário.
  * 
@@ -68,17 +333,337 @@ function generate(options?: CNPJOptions): string {
  * 
  * // Retorna false se o CNPJ for inválido
  * isValid("OGZP0N77444Y40");
+ * 
+ * // Retorna false no modo estrito, pois o CNPJ contém caracteres extras
+ * isValid("25.143.815/0001-50!!!", { strict: true });
  */
-function isValid(cnpj: string): boolean {
-  const cleanedCNPJ = cnpj.replace(/[^a-zA-Z0-9]/g, "");
-  if (cleanedCNPJ.length === CNPJ_LENGTH) {
-    if (isNumeric(cleanedCNPJ)) {
-      return validateNumeric(cleanedCNPJ);
-    } else if (isAlfanumeric(cleanedCNPJ)) {
-      return validateAlphanumeric(cleanedCNPJ);
-    }
+function isValid(cnpj: string): cnpj is CNPJ;
+function isValid(cnpj: string, options: StrictValidationOptions): cnpj is CNPJ;
+function isValid(cnpj: string, options?: StrictValidationOptions): cnpj is CNPJ {
+  return validate(cnpj, options).valid;
+}
+
+/**
+ * Valida um CNPJ (numérico ou alfanumérico) e retorna o resultado detalhado da validação.
+ * 
+ * Além de indicar se o CNPJ é válido, o resultado informa o CNPJ sem formatação, o tipo identificado
+ * (numérico ou alfanumérico), o motivo da rejeição (quando houver) e os dígitos verificadores
+ * esperados para a base informada.
+ * 
+ * Conforme a especificação da Receita Federal, letras são aceitas apenas nos 12 caracteres da base; os
+ * dígitos verificadores devem ser numéricos (caso contrário, o motivo é `invalidCharacter`). Letras minúsculas
+ * são tratadas como maiúsculas, e o CNPJ sem formatação (`value`) é retornado com letras maiúsculas.
+ * 
+ * Por padrão, a pontuação e os demais símbolos são ignorados, e letras ou dígitos fora do alfabeto do CNPJ
+ * (ex: `Ç`) resultam no motivo `invalidCharacter`. No modo estrito, o CNPJ deve
+ * estar sem formatação ou exatamente no formato XX.XXX.XXX/XXXX-XX; caso contrário, o motivo é `invalidFormat`.
+ * 
+ * @param cnpj - O CNPJ a ser validado, que pode estar no formato com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito.
+ * @param {boolean} [options.strict] - Se verdadeiro, aceita apenas o CNPJ sem formatação ou com a máscara exata.
+ * @param {boolean} [options.trim] - No modo estrito, aceita espaços em branco no início e no fim.
+ * @param {string} [options.separators] - No modo estrito, caracteres aceitos no lugar de `.`, `/` e `-`.
+ * 
+ * @returns {ValidationResult} O resultado da validação.
+ * 
+ * @example
+ * // Retorna { valid: true, value: "25143815000150", kind: "cnpj-numeric", reason: null, expectedCheckDigits: "50" }
+ * validate("25.143.815/0001-50");
+ * 
+ * // Retorna { valid: false, value: "12ABC34501DE36", kind: "cnpj-alfanumeric", reason: "secondCheckDigit", expectedCheckDigits: "35" }
+ * validate("12ABC34501DE36");
+ * 
+ * // Retorna { valid: false, value: "25143815000150", kind: "cnpj-numeric", reason: "invalidFormat", expectedCheckDigits: null }
+ * validate("25.143.815/0001-50!!!", { strict: true });
+ */
+function validate(cnpj: string, options?: StrictValidationOptions): ValidationResult {
+  const cleanedCNPJ = cleanCNPJ(cnpj);
+  const numeric = !/[A-Z]/.test(cleanedCNPJ);
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedCNPJ,
+    kind: numeric ? "cnpj-numeric" : "cnpj-alfanumeric",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (/[^A-Z0-9]/.test(cleanedCNPJ)) {
+    result.reason = "invalidCharacter";
+    return result;
+  }
+
+  if (cleanedCNPJ.length !== CNPJ_LENGTH) {
+    result.reason = "invalidLength";
+    return result;
   }
-  return false;
+
+  if (options?.strict && !matchesStrictFormat(cnpj, CNPJ_LAYOUT, "[a-zA-Z0-9]", options)) {
+    result.reason = "invalidFormat";
+    return result;
+  }
+
+  const baseCNPJ = cleanedCNPJ.slice(0, 12);
+  const checkDigits = cleanedCNPJ.slice(12);
+
+  if (!isNumeric(checkDigits)) {
+    result.reason = "invalidCharacter";
+    return result;
+  }
+
+  const [firstDigit, secondDigit] = calculateBaseCheckDigits(baseCNPJ);
+  result.expectedCheckDigits = `${firstDigit}${secondDigit}`;
+
+  if (numeric && /^(\d)\1+$/.test(cleanedCNPJ)) {
+    result.reason = "repeatedDigits";
+  } else if (firstDigit !== Number(checkDigits[0])) {
+    result.reason = "firstCheckDigit";
+  } else if (secondDigit !== Number(checkDigits[1])) {
+    result.reason = "secondCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Separa um CNPJ (numérico ou alfanumérico) em raiz, ordem do estabelecimento e dígitos verificadores.
+ * 
+ * A função aceita o CNPJ com ou sem pontuação. Caso o CNPJ seja inválido, retorna `null`.
+ * 
+ * @param cnpj - O CNPJ a ser separado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ParsedCNPJ | null} As partes do CNPJ, ou `null` se o CNPJ for inválido.
+ * 
+ * @example
+ * // Retorna { value: "25143815000150", kind: "cnpj-numeric", root: "25143815", branch: "0001", checkDigits: "50", headquarters: true }
+ * parse("25.143.815/0001-50");
+ * 
+ * // Retorna { value: "12ABC34501DE35", kind: "cnpj-alfanumeric", root: "12ABC345", branch: "01DE", checkDigits: "35", headquarters: false }
+ * parse("12.ABC.345/01DE-35");
+ */
+function parse(cnpj: string): ParsedCNPJ | null {
+  const result = validate(cnpj);
+  if (!result.valid) return null;
+
+  const branch = result.value.slice(8, 12);
+
+  return {
+    value: result.value as CNPJ,
+    kind: result.kind as ParsedCNPJ["kind"],
+    root: result.value.slice(0, 8),
+    branch,
+    checkDigits: result.value.slice(12),
+    headquarters: branch === CNPJ_HEADQUARTERS_BRANCH,
+  };
+}
+
+/**
+ * Converte um CNPJ (numérico ou alfanumérico) para a forma canônica, indicada para armazenamento e
+ * comparação: sem pontuação e com letras maiúsculas.
+ * 
+ * @param cnpj - O CNPJ, com ou sem pontuação.
+ * 
+ * @returns {CNPJ | null} O CNPJ na forma canônica, ou `null` se o CNPJ for inválido.
+ * 
+ * @example
+ * normalize("12.abc.345/01de-35"); // "12ABC34501DE35"
+ * normalize("25.143.815/0001-40"); // null
+ */
+function normalize(cnpj: string): CNPJ | null {
+  const result = validate(cnpj);
+  return result.valid ? (result.value as CNPJ) : null;
+}
+
+/**
+ * Verifica se dois CNPJs são iguais, desconsiderando a pontuação e a diferença entre letras maiúsculas
+ * e minúsculas.
+ * 
+ * @param a - O primeiro CNPJ, com ou sem pontuação.
+ * @param b - O segundo CNPJ, com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se os dois CNPJs forem válidos e iguais, e `false` caso contrário.
+ * 
+ * @example
+ * equals("12.ABC.345/01DE-35", "12abc34501de35"); // true
+ * equals("25.143.815/0001-40", "25143815000140"); // false, pois o CNPJ é inválido
+ */
+function equals(a: string, b: string): boolean {
+  const normalized = normalize(a);
+  return normalized !== null && normalized === normalize(b);
+}
+
+/**
+ * Compara dois CNPJs (numéricos ou alfanuméricos), para ordenar listas com `Array.prototype.sort`.
+ * 
+ * Os CNPJs são comparados na forma canônica (sem pontuação e com letras maiúsculas), caractere a caractere,
+ * pelo código ASCII: dígitos vêm antes de letras. Assim, CNPJs numéricos ficam em ordem numérica, e um CNPJ
+ * alfanumérico fica depois dos CNPJs numéricos com o mesmo início. A comparação não valida os CNPJs.
+ * 
+ * @param a - O primeiro CNPJ, com ou sem pontuação.
+ * @param b - O segundo CNPJ, com ou sem pontuação.
+ * 
+ * @returns {number} Um número negativo se `a` vier antes de `b`, positivo se vier depois, ou `0` se forem iguais.
+ * 
+ * @example
+ * // Retorna ["12.345.678/0001-95", "12ABC34501DE35", "25143815000150"]
+ * ["25143815000150", "12ABC34501DE35", "12.345.678/0001-95"].sort(compare);
+ */
+function compare(a: string, b: string): number {
+  const first = cleanCNPJ(a);
+  const second = cleanCNPJ(b);
+  return first < second ? -1 : first > second ? 1 : 0;
+}
+
+/**
+ * Agrupa uma lista de CNPJs pela raiz, que identifica a empresa, para encontrar as filiais de uma mesma
+ * empresa e os CNPJs repetidos.
+ * 
+ * Os CNPJs são comparados na forma canônica, e os CNPJs inválidos são ignorados.
+ * 
+ * @param cnpjs - Os CNPJs, com ou sem pontuação.
+ * 
+ * @returns {CNPJRootGroup[]} Os grupos, ordenados pela raiz.
+ * 
+ * @example
+ * groupByRoot(["25.143.815/0001-50", "25143815000150", "25.143.815/0002-31"]);
+ * // Retorna [{ root: "25143815", cnpjs: ["25143815000150", "25143815000231"], duplicates: ["25143815000150"] }]
+ */
+function groupByRoot(cnpjs: Iterable<string>): CNPJRootGroup[] {
+  const groups = new Map<string, { cnpjs: Set<CNPJ>; duplicates: Set<CNPJ> }>();
+
+  for (const value of cnpjs) {
+    const normalized = normalize(value);
+    if (!normalized) continue;
+
+    const root = normalized.slice(0, 8);
+    const group = groups.get(root) ?? { cnpjs: new Set<CNPJ>(), duplicates: new Set<CNPJ>() };
+    groups.set(root, group);
+    (group.cnpjs.has(normalized) ? group.duplicates : group.cnpjs).add(normalized);
+  }
+
+  return Array.from(groups, ([root, group]) => ({
+    root,
+    cnpjs: Array.from(group.cnpjs).sort(compare),
+    duplicates: Array.from(group.duplicates).sort(compare),
+  })).sort((a, b) => compare(a.root, b.root));
+}
+
+/**
+ * Sugere CNPJs válidos para um CNPJ (numérico ou alfanumérico) digitado com erro.
+ * 
+ * São considerados os erros de digitação mais comuns: a troca de um caractere por outro e a inversão
+ * de dois caracteres vizinhos. Para CNPJs numéricos, apenas dígitos são sugeridos; para CNPJs alfanuméricos,
+ * letras também são sugeridas na base. As sugestões são ordenadas das mais prováveis para as menos prováveis.
+ * 
+ * @param cnpj - O CNPJ digitado, com ou sem pontuação.
+ * 
+ * @returns {SuggestionResult} As sugestões e a posição do erro, quando não houver ambiguidade.
+ * Se o CNPJ for válido ou não tiver 14 caracteres, nenhuma sugestão é retornada.
+ * 
+ * @example
+ * // Retorna { suggestions: [{ value: "54550752000155", error: "transposition", position: 3 }, ...], position: null }
+ * suggest("54.505.752/0001-55");
+ */
+function suggest(cnpj: string): SuggestionResult {
+  const cleanedCNPJ = cleanCNPJ(cnpj);
+  if (cleanedCNPJ.length !== CNPJ_LENGTH) return { suggestions: [], position: null };
+
+  const baseAlphabet = /[A-Z]/.test(cleanedCNPJ) ? DIGITS + ALPHABET : DIGITS;
+  return findSuggestions(
+    cleanedCNPJ,
+    (position) => (position < 12 ? baseAlphabet : DIGITS),
+    isValid
+  );
+}
+
+/**
+ * Calcula os dois dígitos verificadores de um CNPJ (numérico ou alfanumérico) a partir da sua base.
+ * 
+ * @param base - A base do CNPJ, com os 12 primeiros caracteres, com ou sem pontuação. Letras minúsculas
+ * são tratadas como maiúsculas.
+ * 
+ * @returns {string} Os dois dígitos verificadores.
+ * 
+ * @throws {Error} Se a base não contiver exatamente 12 caracteres alfanuméricos.
+ * 
+ * @example
+ * // Retorna "50"
+ * checkDigits("25.143.815/0001");
+ * 
+ * // Retorna "35"
+ * checkDigits("12ABC34501DE");
+ */
+function checkDigits(base: string): string {
+  const [firstDigit, secondDigit] = calculateBaseCheckDigits(normalizePart(base, 12, "Base"));
+  return `${firstDigit}${secondDigit}`;
+}
+
+/**
+ * Completa um CNPJ (numérico ou alfanumérico) a partir da sua base, adicionando os dois dígitos verificadores.
+ * 
+ * @param base - A base do CNPJ, com os 12 primeiros caracteres, com ou sem pontuação. Letras minúsculas
+ * são convertidas para maiúsculas.
+ * @param {CNPJCompleteOptions} [options] - Opções para o CNPJ completo.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna o CNPJ formatado.
+ * 
+ * @returns {string} O CNPJ completo, podendo ser formatado ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a base não contiver exatamente 12 caracteres alfanuméricos.
+ * 
+ * @example
+ * // Retorna "25143815000150"
+ * complete("251438150001");
+ * 
+ * // Retorna "12.ABC.345/01DE-35"
+ * complete("12.abc.345/01de", { formatted: true });
+ */
+function complete(base: string, options?: CNPJCompleteOptions): string {
+  const cnpj = normalizePart(base, 12, "Base") + checkDigits(base);
+  return options?.formatted ? format(cnpj) : cnpj;
+}
+
+/**
+ * Oculta parte de um CNPJ (numérico ou alfanumérico) para exibição ou registro em logs.
+ * 
+ * Por padrão, oculta os 2 primeiros e os 2 últimos caracteres e mantém a pontuação do formato
+ * XX.XXX.XXX/XXXX-XX.
+ * 
+ * @param cnpj - O CNPJ a ser ocultado, com ou sem pontuação. Letras minúsculas são exibidas em maiúsculas.
+ * @param {MaskOptions} [options] - Opções de ocultação.
+ * @param {('government' | 'full')} [options.preset] - O padrão de caracteres visíveis. O padrão é `'government'`.
+ * @param {[number, number][]} [options.visible] - Intervalos de caracteres visíveis, no formato `[início, fim)`.
+ * @param {string} [options.placeholder] - O caractere utilizado no lugar dos caracteres ocultos. O padrão é `'*'`.
+ * @param {boolean} [options.formatted] - Se falso, retorna o CNPJ sem pontuação.
+ * 
+ * @returns {string} O CNPJ com os caracteres ocultos. Se o CNPJ não tiver 14 caracteres, todos são ocultados.
+ * 
+ * @example
+ * // Retorna "**.143.815/0001-**"
+ * mask("25.143.815/0001-50");
+ * 
+ * // Retorna "12.ABC.345/####-##"
+ * mask("12ABC34501DE35", { visible: [[0, 8]], placeholder: "#" });
+ */
+function mask(cnpj: string, options?: MaskOptions): string {
+  const cleanedCNPJ = cnpj.replace(/[^a-zA-Z0-9]/g, "").toUpperCase();
+  return maskDocument(cleanedCNPJ, CNPJ_LAYOUT, { government: [[2, 12]], full: [] }, options);
+}
+
+/**
+ * Oculta todos os caracteres de um CNPJ (numérico ou alfanumérico), mantendo apenas a pontuação.
+ * 
+ * @param cnpj - O CNPJ a ser anonimizado, com ou sem pontuação.
+ * @param {MaskOptions} [options] - As opções `placeholder` e `formatted` de `mask`.
+ * 
+ * @returns {string} O CNPJ anonimizado.
+ * 
+ * @example
+ * // Retorna "##.###.###/####-##"
+ * anonymize("25.143.815/0001-50", { placeholder: "#" });
+ */
+function anonymize(cnpj: string, options?: Pick<MaskOptions, "placeholder" | "formatted">): string {
+  return mask(cnpj, { ...options, preset: "full", visible: undefined });
 }
 
 /**
@@ -87,51 +672,78 @@ function isValid(cnpj: string): boolean {
  * A função recebe um CNPJ como string sem formatação e o converte para o formato padrão: 
  * XX.XXX.XXX/XXXX-XX.
  * 
- * @param cnpj - O CNPJ a ser formatado, fornecido como uma string sem pontuação.
+ * @param cnpj - O CNPJ a ser formatado, de preferência sem pontuação. Se tiver 14 caracteres alfanuméricos,
+ * qualquer outra pontuação é substituída pela pontuação padrão. Letras minúsculas são convertidas para maiúsculas,
+ * como na validação.
  * 
- * @returns {string} O CNPJ formatado.
+ * @returns {string} O CNPJ formatado. Se for informado um `CNPJ`, o tipo retornado é `FormattedCNPJ`.
  * 
  * @example
  * // Retorna "25.143.815/0001-50"
  * format("25143815000150");
+ * 
+ * // Retorna "12.ABC.345/01DE-35"
+ * format("12abc34501de35");
  */
+function format(cnpj: CNPJ): FormattedCNPJ;
+function format(cnpj: string): string;
 function format(cnpj: string): string {
-  return cnpj.replace(/(.{2})(.{3})(.{3})(.{4})(.{2})/, "$1.$2.$3/$4-$5");
+  const cleaned = cnpj.replace(/[^a-zA-Z0-9]/g, "");
+  return (cleaned.length === CNPJ_LENGTH ? cleaned : cnpj).toUpperCase().replace(/(.{2})(.{3})(.{3})(.{4})(.{2})/, "$1.$2.$3/$4-$5");
 }
 
 /**
- * Verifica se uma string consiste apenas em caracteres numéricos (0-9).
+ * Formata um CNPJ (numérico ou alfanumérico) parcialmente digitado, aplicando a máscara XX.XXX.XXX/XXXX-XX
+ * à medida que os caracteres são digitados.
  * 
- * @param value - A string a ser verificada.
+ * Indicada para campos de formulário: a pontuação digitada é descartada e reaplicada, as letras são
+ * convertidas para maiúsculas e a posição do cursor é recalculada para o valor formatado.
  * 
- * @returns {boolean} Retorna `true` se a string for composta apenas por números, `false` caso contrário.
+ * @param cnpj - O valor digitado.
+ * @param caret - A posição do cursor no valor digitado. O padrão é o final do valor.
+ * 
+ * @returns {PartialFormatResult} O valor formatado, a nova posição do cursor e se o valor ainda pode ser um CNPJ válido.
  * 
  * @example
- * isNumeric("123456"); // true
- * isNumeric("12A345"); // false
+ * // Retorna { value: "12.AB3", caret: 6, kind: "cnpj", possible: { cpf: false, cnpj: true }, complete: false }
+ * formatPartial("12ab3");
  */
-function isNumeric(value: string): boolean {
-  return /^[0-9]+$/.test(value);
+function formatPartial(cnpj: string, caret: number = cnpj.length): PartialFormatResult {
+  return formatPartialDocument(cnpj, caret, { cnpj: isValid });
 }
 
 /**
- * Verifica se uma string consiste apenas em caracteres alfanuméricos (A-Z, a-z, 0-9).
+ * Verifica se uma string consiste apenas em caracteres numéricos (0-9).
  * 
  * @param value - A string a ser verificada.
  * 
- * @returns {boolean} Retorna `true` se a string for composta apenas por caracteres alfanuméricos, 
- *         `false` caso contrário.
+ * @returns {boolean} Retorna `true` se a string for composta apenas por números, `false` caso contrário.
  * 
  * @example
- * isAlfanumeric("abc123"); // true
- * isAlfanumeric("abc!123"); // false
+ * isNumeric("123456"); // true
+ * isNumeric("12A345"); // false
  */
-function isAlfanumeric(value: string): boolean {
-  return /^[a-zA-Z0-9]+$/.test(value);
+function isNumeric(value: string): boolean {
+  return /^[0-9]+$/.test(value);
 }
 
 export default {
   generate,
+  generateMany,
+  generateStream,
+  generateBranches,
   isValid,
+  validate,
+  parse,
+  normalize,
+  equals,
+  compare,
+  groupByRoot,
+  suggest,
+  checkDigits,
+  complete,
+  mask,
+  anonymize,
   format,
+  formatPartial,
 };
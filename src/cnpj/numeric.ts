@@ -1,4 +1,6 @@
 import { CNPJ_LENGTH } from "../constants";
+import { RandomSource } from "../types";
+import { cleanCNPJ } from "./clean";
 
 
 /**
@@ -7,14 +9,16 @@ import { CNPJ_LENGTH } from "../constants";
  * Esta função gera um CNPJ numérico válido, composto apenas por números. 
  * O número gerado é composto por uma base numérica gerada e os dois dígitos verificadores calculados.
  * 
+ * @param random - A fonte de números aleatórios. O padrão é `Math.random`.
+ * 
  * @returns {string} O CNPJ numérico gerado, como uma string de 14 dígitos, sem formatação (apenas números).
  * 
  * @example
  * // Retorna um CNPJ numérico válido, como '25143815000150'
  * generateNumeric();
  */
-function generateNumeric(): string {
-  const baseCNPJ = generateBaseNumeric();
+function generateNumeric(random: RandomSource = Math.random): string {
+  const baseCNPJ = generateBaseNumeric(random);
   const [firstDigit, secondDigit] = calculateCheckDigits(baseCNPJ);
   return [...baseCNPJ, firstDigit, secondDigit].join("");
 }
@@ -25,14 +29,16 @@ function generateNumeric(): string {
  * Esta função gera uma base numérica aleatória composta por 12 dígitos (números de 0 a 9),
  * que são utilizados como a primeira parte do CNPJ, antes dos dois dígitos verificadores.
  * 
+ * @param random - A fonte de números aleatórios. O padrão é `Math.random`.
+ * 
  * @returns {number[]} Um array de 12 números (de 0 a 9), representando a base numérica do CNPJ.
  * 
  * @example
  * // Retorna algo como [2, 4, 6, 1, 5, 3, 9, 7, 8, 0, 1, 4]
  * generateBaseNumeric();
  */
-function generateBaseNumeric(): number[] {
-  return Array.from({ length: 12 }, () => Math.floor(Math.random() * 10));
+function generateBaseNumeric(random: RandomSource = Math.random): number[] {
+  return Array.from({ length: 12 }, () => Math.floor(random() * 10));
 }
 
 /**
@@ -103,7 +109,7 @@ function calculateCheckDigit(digits: number[]): number {
  * validateNumeric("25143815000140");
  */
 function validateNumeric(cnpj: string): boolean {
-  const cleanedCNPJ = cleanCNPJ(cnpj, true);
+  const cleanedCNPJ = cleanCNPJ(cnpj);
   if (!isValidFormat(cleanedCNPJ)) return false;
 
   const digits = cleanedCNPJ.split("").map(Number);
@@ -114,45 +120,25 @@ function validateNumeric(cnpj: string): boolean {
 }
 
 /**
- * Valida um CNPJ clássico (numérico) verificando seu formato e seus dígitos verificadores.
- * 
- * A função limpa a string do CNPJ, valida o formato e calcula os dígitos verificadores
- * para garantir que o CNPJ fornecido seja válido. 
- * 
- * @param cnpj - O CNPJ a ser validado, que pode estar no formato com ou sem pontuação.
- * 
- * @returns {boolean} Retorna `true` se o CNPJ for válido e `false` caso contrário.
- * 
- * @example
- * // Retorna true se o CNPJ for válido
- * validateNumeric("25143815000150");
- * 
- * // Retorna false se o CNPJ for inválido
- * validateNumeric("25143815000140");
- */
-function cleanCNPJ(cnpj: string, numeric: boolean): string {
-  return numeric ? cnpj.replace(/\D/g, "") : cnpj.replace(/[./-]/g, "");
-}
-
-/**
- * Valida um CNPJ clássico (numérico) verificando seu formato e seus dígitos verificadores.
- * 
- * A função limpa a string do CNPJ, valida o formato e calcula os dígitos verificadores
- * para garantir que o CNPJ fornecido seja válido. 
+ * Verifica se um CNPJ sem pontuação tem o formato de um CNPJ clássico: 14 dígitos que não formam uma
+ * sequência de dígitos repetidos.
  * 
- * @param cnpj - O CNPJ a ser validado, que pode estar no formato com ou sem pontuação.
+ * @param cnpj - O CNPJ sem pontuação.
  * 
- * @returns {boolean} Retorna `true` se o CNPJ for válido e `false` caso contrário.
+ * @returns {boolean} Retorna `true` se o formato for válido e `false` caso contrário.
  * 
  * @example
- * // Retorna true se o CNPJ for válido
- * validateNumeric("25143815000150");
- * 
- * // Retorna false se o CNPJ for inválido
- * validateNumeric("25143815000140");
+ * isValidFormat("25143815000150"); // true
+ * isValidFormat("11111111111111"); // false
  */
 function isValidFormat(cnpj: string): boolean {
-  return cnpj.length === CNPJ_LENGTH && !/^(\d)\1+$/.test(cnpj);
+  return new RegExp(`^\\d{${CNPJ_LENGTH}}$`).test(cnpj) && !/^(\d)\1+$/.test(cnpj);
 }
 
-export { generateNumeric, validateNumeric, cleanCNPJ, isValidFormat };
+export {
+  generateNumeric,
+  generateBaseNumeric,
+  validateNumeric,
+  isValidFormat,
+  calculateCheckDigits,
+};
@@ -0,0 +1,216 @@
+import { CNS_LENGTH, MAX_GENERATE_ATTEMPTS } from "../constants";
+import { resolveRandom } from "../random";
+import { RandomOptions, RandomSource, ValidationResult } from "../types";
+
+interface CNSOptions extends RandomOptions {
+  type?: "definitive" | "provisional";
+  formatted?: boolean;
+}
+
+/**
+ * Gera um número de Cartão Nacional de Saúde (CNS).
+ * 
+ * Esta função gera um CNS válido, definitivo ou provisório. O CNS gerado pode ser retornado com ou sem a formatação.
+ * 
+ * @param {CNSOptions} [options] - Opções para a geração do CNS.
+ * @param {('definitive' | 'provisional')} [options.type] - O tipo de CNS a ser gerado: definitivo
+ * (iniciado por 1 ou 2) ou provisório (iniciado por 7, 8 ou 9). O padrão é `'definitive'`.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna o CNS formatado (XXX XXXX XXXX XXXX).
+ * Caso contrário, retorna o CNS sem formatação (apenas números).
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
+ * 
+ * @returns {string} O CNS gerado, podendo ser formatado ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a fonte de números aleatórios gerar apenas números inválidos (ex: uma função que
+ * retorna sempre o mesmo valor), após um número limitado de tentativas.
+ * 
+ * @example
+ * // Retorna um CNS definitivo, como '100000000060018'
+ * generate();
+ * 
+ * @example
+ * // Retorna um CNS provisório formatado, como '700 0000 0000 0005'
+ * generate({ type: 'provisional', formatted: true });
+ */
+export function generate(options?: CNSOptions): string {
+  const random = resolveRandom(options);
+
+  for (let attempt = 0; attempt < MAX_GENERATE_ATTEMPTS; attempt++) {
+    const cns = options?.type === "provisional" ? generateProvisional(random) : generateDefinitive(random);
+    if (isValid(cns)) return options?.formatted ? format(cns) : cns;
+  }
+
+  throw new Error("Não foi possível gerar um CNS válido com a fonte de números aleatórios informada");
+}
+
+/**
+ * Valida um número de Cartão Nacional de Saúde (CNS).
+ * 
+ * A função limpa a string do CNS, verifica o formato e o primeiro dígito, que indica se o CNS é
+ * definitivo ou provisório, e confere os dígitos verificadores de acordo com o tipo.
+ * 
+ * @param cns - O CNS a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se o CNS for válido e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true se o CNS for válido
+ * isValid("100 0000 0006 0018");
+ * 
+ * // Retorna false se o CNS for inválido
+ * isValid("100 0000 0006 0019");
+ */
+export function isValid(cns: string): boolean {
+  return validate(cns).valid;
+}
+
+/**
+ * Valida um número de Cartão Nacional de Saúde (CNS) e retorna o resultado detalhado da validação.
+ * 
+ * Quando o primeiro dígito não é 1, 2, 7, 8 ou 9, o motivo é `invalidPrefix`. Nos CNS definitivos,
+ * `expectedCheckDigits` contém os 4 últimos dígitos, calculados a partir do PIS; nos provisórios, o último
+ * dígito que torna a soma ponderada divisível por 11, ou `null` quando nenhum dígito a torna divisível.
+ * Em ambos os casos, quando os dígitos não conferem, o motivo é `firstCheckDigit`.
+ * 
+ * @param cns - O CNS a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ValidationResult} O resultado da validação.
+ * 
+ * @example
+ * // Retorna { valid: false, value: "100000000060019", kind: "cns", reason: "firstCheckDigit", expectedCheckDigits: "0018" }
+ * validate("100 0000 0006 0019");
+ */
+export function validate(cns: string): ValidationResult {
+  const cleanedCNS = cns.replace(/\D/g, "");
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedCNS,
+    kind: "cns",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (cleanedCNS.length !== CNS_LENGTH) {
+    result.reason = /[a-zA-Z]/.test(cns) ? "invalidCharacter" : "invalidLength";
+    return result;
+  }
+
+  if (/^[12]/.test(cleanedCNS)) {
+    result.expectedCheckDigits = completeDefinitive(cleanedCNS.slice(0, 11)).slice(11);
+  } else if (/^[789]/.test(cleanedCNS)) {
+    const digit = calculateProvisionalCheckDigit(cleanedCNS.slice(0, 14).split("").map(Number));
+    result.expectedCheckDigits = digit === null ? null : `${digit}`;
+  } else {
+    result.reason = "invalidPrefix";
+    return result;
+  }
+
+  if (/^(\d)\1+$/.test(cleanedCNS)) {
+    result.reason = "repeatedDigits";
+  } else if (!result.expectedCheckDigits || !cleanedCNS.endsWith(result.expectedCheckDigits)) {
+    result.reason = "firstCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Gera um CNS definitivo a partir de um PIS aleatório iniciado por 1 ou 2.
+ * 
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {string} O CNS definitivo, com 15 dígitos.
+ * 
+ * @example
+ * // Exemplo de retorno: "100000000060018"
+ * generateDefinitive(Math.random);
+ */
+function generateDefinitive(random: RandomSource): string {
+  const pis = [1 + Math.floor(random() * 2), ...Array.from({ length: 10 }, () => Math.floor(random() * 10))];
+  return completeDefinitive(pis.join(""));
+}
+
+/**
+ * Gera um CNS provisório iniciado por 7, 8 ou 9, cuja soma ponderada é divisível por 11.
+ * 
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {string} O CNS provisório, com 15 dígitos, ou uma string vazia se a base sorteada não
+ * admitir nenhum dígito final válido.
+ * 
+ * @example
+ * // Exemplo de retorno: "700000000000005"
+ * generateProvisional(Math.random);
+ */
+function generateProvisional(random: RandomSource): string {
+  const base = [7 + Math.floor(random() * 3), ...Array.from({ length: 13 }, () => Math.floor(random() * 10))];
+  const digit = calculateProvisionalCheckDigit(base);
+  return digit === null ? "" : [...base, digit].join("");
+}
+
+/**
+ * Completa um CNS definitivo a partir dos 11 dígitos do PIS.
+ * 
+ * A soma dos dígitos do PIS multiplicados pelos pesos de 15 a 5 é dividida por 11, e o dígito verificador
+ * é 11 menos o resto (11 resulta em 0). Se o dígito for 10, a soma é acrescida de 2 e o CNS recebe o sufixo
+ * `001` antes do novo dígito; caso contrário, o sufixo é `000`.
+ * 
+ * @param pis - Os 11 primeiros dígitos do CNS.
+ * 
+ * @returns {string} O CNS definitivo, com 15 dígitos.
+ * 
+ * @example
+ * // Retorna "100000000060018"
+ * completeDefinitive("10000000006");
+ */
+function completeDefinitive(pis: string): string {
+  const sum = pis.split("").reduce((acc, num, index) => acc + Number(num) * (15 - index), 0);
+  const digit = (11 - (sum % 11)) % 11;
+
+  if (digit === 10) return `${pis}001${11 - ((sum + 2) % 11)}`;
+  return `${pis}000${digit}`;
+}
+
+/**
+ * Calcula o último dígito de um CNS provisório, que torna a soma dos 15 dígitos multiplicados pelos pesos
+ * de 15 a 1 divisível por 11.
+ * 
+ * @param numbers - Um array com os 14 primeiros dígitos do CNS.
+ * 
+ * @returns {number | null} O dígito calculado, ou `null` se nenhum dígito tornar a soma divisível por 11.
+ * 
+ * @example
+ * // Retorna 5
+ * calculateProvisionalCheckDigit([7, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+ */
+function calculateProvisionalCheckDigit(numbers: number[]): number | null {
+  const sum = numbers.reduce((acc, num, index) => acc + num * (15 - index), 0);
+  const digit = (11 - (sum % 11)) % 11;
+  return digit === 10 ? null : digit;
+}
+
+/**
+ * Formata um CNS aplicando o formato padrão: XXX XXXX XXXX XXXX.
+ * 
+ * @param cns - O CNS a ser formatado, que deve estar no formato numérico (sem pontuação).
+ * 
+ * @returns {string} O CNS formatado no padrão XXX XXXX XXXX XXXX.
+ * 
+ * @example
+ * // Retorna "100 0000 0006 0018"
+ * format("100000000060018");
+ */
+function format(cns: string): string {
+  return cns.replace(/(\d{3})(\d{4})(\d{4})(\d{4})/, "$1 $2 $3 $4");
+}
+
+export default {
+  generate,
+  isValid,
+  validate,
+  format,
+};
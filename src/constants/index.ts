@@ -2,5 +2,48 @@ export const CPF_LENGTH = 11;
 
 export const CNPJ_LENGTH = 14;
 
+export const PIS_LENGTH = 11;
+
+export const TITULO_ELEITOR_LENGTH = 12;
+
+export const CNH_LENGTH = 11;
+
+export const RENAVAM_LENGTH = 11;
+
+export const CNS_LENGTH = 15;
+
+export const DIGITS = "0123456789";
+
 export const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
 
+export const CNPJ_HEADQUARTERS_BRANCH = "0001";
+
+/**
+ * Quantidade máxima de tentativas para gerar um documento válido, nos documentos em que alguns números
+ * gerados precisam ser descartados (ex: sequências de dígitos repetidos).
+ */
+export const MAX_GENERATE_ATTEMPTS = 1000;
+
+export const CPF_LAYOUT = "XXX.XXX.XXX-XX";
+
+export const CNPJ_LAYOUT = "XX.XXX.XXX/XXXX-XX";
+
+export const PIS_LAYOUT = "XXX.XXXXX.XX-X";
+
+export const TITULO_ELEITOR_LAYOUT = "XXXX XXXX XXXX";
+
+export const UFS = [
+  "AC", "AL", "AM", "AP", "BA", "CE", "DF", "ES", "GO", "MA", "MG", "MS", "MT", "PA",
+  "PB", "PE", "PI", "PR", "RJ", "RN", "RO", "RR", "RS", "SC", "SE", "SP", "TO",
+] as const;
+
+/**
+ * Códigos de UF utilizados pelo TSE no título de eleitor. O código `28` (`ZZ`) identifica
+ * os eleitores inscritos no exterior.
+ */
+export const TITULO_ELEITOR_UF_CODES: Record<string, string> = {
+  "01": "SP", "02": "MG", "03": "RJ", "04": "RS", "05": "BA", "06": "PR", "07": "CE",
+  "08": "PE", "09": "SC", "10": "GO", "11": "MA", "12": "PB", "13": "PA", "14": "ES",
+  "15": "PI", "16": "RN", "17": "AL", "18": "MT", "19": "MS", "20": "DF", "21": "SE",
+  "22": "AM", "23": "RO", "24": "AC", "25": "AP", "26": "RR", "27": "TO", "28": "ZZ",
+};
@@ -1,6 +1,28 @@
-import { CPF_LENGTH } from "../constants";
+import { Readable } from "stream";
+import { CPF_LAYOUT, CPF_LENGTH, DIGITS } from "../constants";
+import { generateUnique, toStream } from "../batch";
+import { resolveRandom } from "../random";
+import { maskDocument } from "../mask";
+import { formatPartialDocument } from "../partial";
+import { findSuggestions } from "../suggestion";
+import { matchesStrictFormat } from "../strict";
+import {
+  CPF,
+  FormattedCPF,
+  MaskOptions,
+  PartialFormatResult,
+  RandomOptions,
+  RandomSource,
+  StrictValidationOptions,
+  SuggestionResult,
+  ValidationResult,
+} from "../types";
 
-interface CPFOptions {
+interface CPFOptions extends RandomOptions {
+  formatted?: boolean;
+}
+
+interface CPFCompleteOptions {
   formatted?: boolean;
 }
 
@@ -12,8 +34,12 @@ interface CPFOptions {
  * @param {CPFOptions} [options] - Opções para a geração do CPF.
  * @param {boolean} [options.formatted] - Se verdadeiro, retorna o CPF formatado (com pontos e traço). 
  * Caso contrário, retorna o CPF sem formatação (apenas números).
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
  * 
- * @returns {string} O CPF gerado, podendo ser formatado ou não, conforme as opções fornecidas.
+ * @returns {CPF} O CPF gerado, podendo ser formatado ou não, conforme as opções fornecidas. Com `formatted: true`,
+ * o tipo retornado é `FormattedCPF`.
  * 
  * @example
  * // Retorna um CPF sem formatação, como '07208766053'
@@ -22,15 +48,66 @@ interface CPFOptions {
  * @example
  * // Retorna um CPF formatado, como '072.087.660-53'
  * generate({ formatted: true });
+ * 
+ * @example
+ * // Retorna sempre o mesmo CPF para a mesma semente
+ * generate({ seed: 42 });
  */
-export function generate(options?: CPFOptions): string {
-  const baseCPF = generateBaseCPF();
+export function generate(options: CPFOptions & { formatted: true }): FormattedCPF;
+export function generate(options?: CPFOptions): CPF;
+export function generate(options?: CPFOptions): CPF {
+  const baseCPF = generateBaseCPF(resolveRandom(options));
   const firstDigit = calculateCheckDigit(baseCPF);
   const secondDigit = calculateCheckDigit([...baseCPF, firstDigit]);
 
   const cpf = [...baseCPF, firstDigit, secondDigit].join("");
 
-  return options?.formatted ? format(cpf) : cpf;
+  return (options?.formatted ? format(cpf) : cpf) as CPF;
+}
+
+/**
+ * Gera uma sequência de CPFs distintos.
+ * 
+ * Os CPFs são gerados sob demanda, à medida que a sequência é consumida, o que permite gerar grandes
+ * quantidades sem montar a lista inteira em memória. A sequência pode ser consumida com `for...of`,
+ * `for await...of` ou convertida em array com `Array.from`.
+ * 
+ * @param count - A quantidade de CPFs a serem gerados.
+ * @param {CPFOptions} [options] - As mesmas opções aceitas por `generate`.
+ * 
+ * @returns {IterableIterator<string>} Um iterador com `count` CPFs distintos.
+ * 
+ * @throws {Error} Se `count` não for um número inteiro não negativo.
+ * 
+ * @example
+ * // Retorna 3 CPFs distintos e formatados, como ['072.087.660-53', '295.379.955-93', '211.560.323-00']
+ * Array.from(generateMany(3, { formatted: true }));
+ */
+export function generateMany(count: number, options?: CPFOptions): IterableIterator<string> {
+  const random = resolveRandom(options);
+  return generateUnique(
+    count,
+    () => generate({ random }),
+    options?.formatted ? format : undefined
+  );
+}
+
+/**
+ * Gera uma stream de leitura do Node.js com CPFs distintos, um por linha.
+ * 
+ * @param count - A quantidade de CPFs a serem gerados.
+ * @param {CPFOptions} [options] - As mesmas opções aceitas por `generate`.
+ * 
+ * @returns {Readable} Uma stream que emite cada CPF seguido de uma quebra de linha.
+ * 
+ * @throws {Error} Se `count` não for um número inteiro não negativo.
+ * 
+ * @example
+ * // Grava 100.000 CPFs distintos em um arquivo
+ * generateStream(100000).pipe(fs.createWriteStream("cpfs.txt"));
+ */
+export function generateStream(count: number, options?: CPFOptions): Readable {
+  return toStream(generateMany(count, options));
 }
 
 /**
@@ -39,7 +116,10 @@ export function generate(options?: CPFOptions): string {
  * A função limpa a string do CPF, verifica o formato e calcula os dois dígitos verificadores
  * para garantir que o CPF fornecido seja válido. 
  * 
+ * Em TypeScript, também funciona como type guard: quando retorna `true`, o valor passa a ter o tipo `CPF`.
+ * 
  * @param cpf - O CPF a ser validado, que pode estar no formato com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `validate`.
  * 
  * @returns {boolean} Retorna `true` se o CPF for válido e `false` caso contrário.
  * 
@@ -49,19 +129,264 @@ export function generate(options?: CPFOptions): string {
  * 
  * // Retorna false se o CPF for inválido
  * isValid("251.438.150-01");
+ * 
+ * // Retorna false no modo estrito, pois o CPF contém caracteres extras
+ * isValid("abc295x379y955z93", { strict: true });
+ */
+export function isValid(cpf: string): cpf is CPF;
+export function isValid(cpf: string, options: StrictValidationOptions): cpf is CPF;
+export function isValid(cpf: string, options?: StrictValidationOptions): cpf is CPF {
+  return validate(cpf, options).valid;
+}
+
+/**
+ * Valida um CPF e retorna o resultado detalhado da validação.
+ * 
+ * Além de indicar se o CPF é válido, o resultado informa o CPF sem formatação, o motivo da
+ * rejeição (quando houver) e os dígitos verificadores esperados para a base informada.
+ * 
+ * Por padrão, todos os caracteres que não são dígitos são ignorados. No modo estrito, o CPF deve estar sem
+ * formatação ou exatamente no formato XXX.XXX.XXX-XX; caso contrário, o motivo é `invalidFormat`.
+ * 
+ * @param cpf - O CPF a ser validado, que pode estar no formato com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito.
+ * @param {boolean} [options.strict] - Se verdadeiro, aceita apenas o CPF sem formatação ou com a máscara exata.
+ * @param {boolean} [options.trim] - No modo estrito, aceita espaços em branco no início e no fim.
+ * @param {string} [options.separators] - No modo estrito, caracteres aceitos no lugar de `.` e `-`.
+ * 
+ * @returns {ValidationResult} O resultado da validação.
+ * 
+ * @example
+ * // Retorna { valid: true, value: "29537995593", kind: "cpf", reason: null, expectedCheckDigits: "93" }
+ * validate("295.379.955-93");
+ * 
+ * // Retorna { valid: false, value: "29537995594", kind: "cpf", reason: "secondCheckDigit", expectedCheckDigits: "93" }
+ * validate("295.379.955-94");
+ * 
+ * // Retorna { valid: false, value: "29537995593", kind: "cpf", reason: "invalidFormat", expectedCheckDigits: null }
+ * validate("295.379.955-93!!!", { strict: true });
  */
-export function isValid(cpf: string): boolean {
+export function validate(cpf: string, options?: StrictValidationOptions): ValidationResult {
   const cleanedCPF = cleanCPF(cpf);
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedCPF,
+    kind: "cpf",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (cleanedCPF.length !== CPF_LENGTH) {
+    result.reason = /[a-zA-Z]/.test(cpf) ? "invalidCharacter" : "invalidLength";
+    return result;
+  }
 
-  if (!isValidFormat(cleanedCPF)) return false;
+  if (options?.strict && !matchesStrictFormat(cpf, CPF_LAYOUT, "\\d", options)) {
+    result.reason = "invalidFormat";
+    return result;
+  }
 
   const digits = cleanedCPF.split("").map(Number);
   const baseCPF = digits.slice(0, 9);
 
   const firstDigit = calculateCheckDigit(baseCPF);
   const secondDigit = calculateCheckDigit([...baseCPF, firstDigit]);
+  result.expectedCheckDigits = `${firstDigit}${secondDigit}`;
+
+  if (isRepeatedSequence(cleanedCPF)) {
+    result.reason = "repeatedDigits";
+  } else if (isBlocklisted(cleanedCPF)) {
+    result.reason = "blocklisted";
+  } else if (firstDigit !== digits[9]) {
+    result.reason = "firstCheckDigit";
+  } else if (secondDigit !== digits[10]) {
+    result.reason = "secondCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Converte um CPF para a forma canônica, indicada para armazenamento e comparação: apenas os 11 dígitos.
+ * 
+ * @param cpf - O CPF, com ou sem pontuação.
+ * 
+ * @returns {CPF | null} O CPF na forma canônica, ou `null` se o CPF for inválido.
+ * 
+ * @example
+ * normalize("295.379.955-93"); // "29537995593"
+ * normalize("295.379.955-94"); // null
+ */
+export function normalize(cpf: string): CPF | null {
+  const result = validate(cpf);
+  return result.valid ? (result.value as CPF) : null;
+}
+
+/**
+ * Verifica se dois CPFs são iguais, desconsiderando a pontuação.
+ * 
+ * @param a - O primeiro CPF, com ou sem pontuação.
+ * @param b - O segundo CPF, com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se os dois CPFs forem válidos e iguais, e `false` caso contrário.
+ * 
+ * @example
+ * equals("295.379.955-93", "29537995593"); // true
+ * equals("295.379.955-94", "29537995594"); // false, pois o CPF é inválido
+ */
+export function equals(a: string, b: string): boolean {
+  const normalized = normalize(a);
+  return normalized !== null && normalized === normalize(b);
+}
+
+/**
+ * Compara dois CPFs, para ordenar listas com `Array.prototype.sort`.
+ * 
+ * Os CPFs são comparados sem pontuação, em ordem numérica. A comparação não valida os CPFs.
+ * 
+ * @param a - O primeiro CPF, com ou sem pontuação.
+ * @param b - O segundo CPF, com ou sem pontuação.
+ * 
+ * @returns {number} Um número negativo se `a` vier antes de `b`, positivo se vier depois, ou `0` se forem iguais.
+ * 
+ * @example
+ * // Retorna ["072.087.660-53", "29537995593"]
+ * ["29537995593", "072.087.660-53"].sort(compare);
+ */
+export function compare(a: string, b: string): number {
+  const first = cleanCPF(a);
+  const second = cleanCPF(b);
+  return first < second ? -1 : first > second ? 1 : 0;
+}
+
+/**
+ * Sugere CPFs válidos para um CPF digitado com erro.
+ * 
+ * São considerados os erros de digitação mais comuns: a troca de um dígito por outro e a inversão
+ * de dois dígitos vizinhos. As sugestões são ordenadas das mais prováveis para as menos prováveis.
+ * 
+ * @param cpf - O CPF digitado, com ou sem pontuação.
+ * 
+ * @returns {SuggestionResult} As sugestões e a posição do erro, quando não houver ambiguidade.
+ * Se o CPF for válido ou não tiver 11 dígitos, nenhuma sugestão é retornada.
+ * 
+ * @example
+ * // Retorna { suggestions: [{ value: "29537995593", error: "transposition", position: 9 }, ...], position: null }
+ * suggest("295.379.955-39");
+ */
+export function suggest(cpf: string): SuggestionResult {
+  const cleanedCPF = cleanCPF(cpf);
+  if (cleanedCPF.length !== CPF_LENGTH) return { suggestions: [], position: null };
+
+  return findSuggestions(cleanedCPF, () => DIGITS, isValid);
+}
+
+/**
+ * Calcula os dois dígitos verificadores de um CPF a partir da sua base.
+ * 
+ * @param base - A base do CPF, com os 9 primeiros dígitos, com ou sem pontuação.
+ * 
+ * @returns {string} Os dois dígitos verificadores.
+ * 
+ * @throws {Error} Se a base não contiver exatamente 9 dígitos.
+ * 
+ * @example
+ * // Retorna "93"
+ * checkDigits("295.379.955");
+ */
+export function checkDigits(base: string): string {
+  const baseCPF = parseBase(base);
+  const firstDigit = calculateCheckDigit(baseCPF);
+  const secondDigit = calculateCheckDigit([...baseCPF, firstDigit]);
+  return `${firstDigit}${secondDigit}`;
+}
+
+/**
+ * Completa um CPF a partir da sua base, adicionando os dois dígitos verificadores.
+ * 
+ * @param base - A base do CPF, com os 9 primeiros dígitos, com ou sem pontuação.
+ * @param {CPFCompleteOptions} [options] - Opções para o CPF completo.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna o CPF formatado.
+ * 
+ * @returns {string} O CPF completo, podendo ser formatado ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a base não contiver exatamente 9 dígitos.
+ * 
+ * @example
+ * // Retorna "29537995593"
+ * complete("295379955");
+ * 
+ * // Retorna "295.379.955-93"
+ * complete("295.379.955", { formatted: true });
+ */
+export function complete(base: string, options?: CPFCompleteOptions): string {
+  const cpf = parseBase(base).join("") + checkDigits(base);
+  return options?.formatted ? format(cpf) : cpf;
+}
+
+/**
+ * Converte a base de um CPF em um array de dígitos, removendo a pontuação.
+ * 
+ * @param base - A base do CPF, com ou sem pontuação.
+ * 
+ * @returns {number[]} Os 9 dígitos da base.
+ * 
+ * @throws {Error} Se a base não contiver exatamente 9 dígitos.
+ * 
+ * @example
+ * // Retorna [2, 9, 5, 3, 7, 9, 9, 5, 5]
+ * parseBase("295.379.955");
+ */
+function parseBase(base: string): number[] {
+  const cleanedBase = base.replace(/[^a-zA-Z0-9]/g, "");
+  if (!/^\d{9}$/.test(cleanedBase)) {
+    throw new Error("Base do CPF deve conter 9 dígitos");
+  }
+  return cleanedBase.split("").map(Number);
+}
 
-  return firstDigit === digits[9] && secondDigit === digits[10];
+/**
+ * Oculta parte de um CPF para exibição ou registro em logs, conforme a LGPD.
+ * 
+ * Por padrão, oculta os 3 primeiros e os 2 últimos dígitos, como no padrão adotado pelo governo federal,
+ * e mantém a pontuação do formato XXX.XXX.XXX-XX.
+ * 
+ * @param cpf - O CPF a ser ocultado, com ou sem pontuação.
+ * @param {MaskOptions} [options] - Opções de ocultação.
+ * @param {('government' | 'full')} [options.preset] - O padrão de caracteres visíveis. O padrão é `'government'`.
+ * @param {[number, number][]} [options.visible] - Intervalos de dígitos visíveis, no formato `[início, fim)`.
+ * @param {string} [options.placeholder] - O caractere utilizado no lugar dos dígitos ocultos. O padrão é `'*'`.
+ * @param {boolean} [options.formatted] - Se falso, retorna o CPF sem pontuação.
+ * 
+ * @returns {string} O CPF com os dígitos ocultos. Se o CPF não tiver 11 dígitos, todos os dígitos são ocultados.
+ * 
+ * @example
+ * // Retorna "***.379.955-**"
+ * mask("295.379.955-93");
+ * 
+ * // Retorna "295.###.###-##"
+ * mask("29537995593", { visible: [[0, 3]], placeholder: "#" });
+ */
+export function mask(cpf: string, options?: MaskOptions): string {
+  return maskDocument(cleanCPF(cpf), CPF_LAYOUT, { government: [[3, 9]], full: [] }, options);
+}
+
+/**
+ * Oculta todos os dígitos de um CPF, mantendo apenas a pontuação.
+ * 
+ * @param cpf - O CPF a ser anonimizado, com ou sem pontuação.
+ * @param {MaskOptions} [options] - As opções `placeholder` e `formatted` de `mask`.
+ * 
+ * @returns {string} O CPF anonimizado.
+ * 
+ * @example
+ * // Retorna "***.***.***-**"
+ * anonymize("295.379.955-93");
+ */
+export function anonymize(cpf: string, options?: Pick<MaskOptions, "placeholder" | "formatted">): string {
+  return mask(cpf, { ...options, preset: "full", visible: undefined });
 }
 
 /**
@@ -83,25 +408,36 @@ function cleanCPF(cpf: string): string {
 }
 
 /**
- * Verifica se o formato de um CPF é válido, considerando seu comprimento e se não é uma sequência repetitiva.
+ * Verifica se um CPF é uma sequência de dígitos repetidos.
  * 
  * @param cpf - O CPF a ser verificado, que já deve estar limpo (sem pontuação).
  * 
- * @returns {boolean} Retorna `true` se o CPF tiver um formato válido e `false` caso contrário.
+ * @returns {boolean} Retorna `true` se todos os dígitos do CPF forem iguais e `false` caso contrário.
  * 
  * @example
- * // Retorna true se o CPF for válido
- * isValidFormat("25143815000");
+ * // Retorna true para sequências repetitivas
+ * isRepeatedSequence("11111111111");
+ */
+function isRepeatedSequence(cpf: string): boolean {
+  return /^(\d)\1+$/.test(cpf); // Reject sequences like 111.111.111-11
+}
+
+/**
+ * Verifica se um CPF está na lista de valores bloqueados.
  * 
- * // Retorna false para sequências repetitivas
- * isValidFormat("11111111111");
+ * O CPF "12345678909" possui dígitos verificadores corretos, mas é amplamente utilizado como
+ * valor de exemplo e por isso não é aceito.
+ * 
+ * @param cpf - O CPF a ser verificado, que já deve estar limpo (sem pontuação).
  * 
- * // Retorna false para o CPF "12345678909"
- * isValidFormat("12345678909");
+ * @returns {boolean} Retorna `true` se o CPF estiver bloqueado e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true
+ * isBlocklisted("12345678909");
  */
-function isValidFormat(cpf: string): boolean {
-  if (cpf.length !== CPF_LENGTH) return false;
-  return !/^(\d)\1+$/.test(cpf) && cpf !== "12345678909"; // Reject sequences like 111.111.111-11
+function isBlocklisted(cpf: string): boolean {
+  return cpf === "12345678909";
 }
 
 /**
@@ -110,6 +446,8 @@ function isValidFormat(cpf: string): boolean {
  * Cria um array de 9 dígitos aleatórios, que são usados como a base para a geração
  * de um CPF. Cada dígito é gerado de forma independente e está no intervalo de 0 a 9.
  * 
+ * @param random - A fonte de números aleatórios. O padrão é `Math.random`.
+ * 
  * @returns {number[]} Um array de 9 números inteiros, representando a base de um CPF.
  * 
  * @example
@@ -117,8 +455,8 @@ function isValidFormat(cpf: string): boolean {
  * generateBaseCPF(); 
  * // Exemplo de retorno: [4, 7, 2, 8, 3, 1, 0, 9, 6]
  */
-function generateBaseCPF(): number[] {
-  return Array.from({ length: 9 }, () => Math.floor(Math.random() * 10));
+function generateBaseCPF(random: RandomSource = Math.random): number[] {
+  return Array.from({ length: 9 }, () => Math.floor(random() * 10));
 }
 
 /**
@@ -153,21 +491,56 @@ function calculateCheckDigit(numbers: number[]): number {
  * A função utiliza uma expressão regular para capturar os grupos de três números seguidos por dois 
  * números e os separa utilizando os caracteres de pontuação padrão para CPF (ponto e hífen).
  * 
- * @param cpf - O CPF a ser formatado, que deve estar no formato numérico (sem pontuação).
+ * @param cpf - O CPF a ser formatado, de preferência no formato numérico (sem pontuação). Se tiver 11 dígitos,
+ * qualquer outra pontuação é substituída pela pontuação padrão.
  * 
- * @returns {string} O CPF formatado no padrão XXX.XXX.XXX-XX.
+ * @returns {string} O CPF formatado no padrão XXX.XXX.XXX-XX. Se for informado um `CPF`, o tipo retornado é
+ * `FormattedCPF`.
  * 
  * @example
  * // Retorna "123.456.789-01"
  * format("12345678901");
  */
-
+function format(cpf: CPF): FormattedCPF;
+function format(cpf: string): string;
 function format(cpf: string): string {
-  return cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4");
+  const digits = cleanCPF(cpf);
+  return (digits.length === CPF_LENGTH ? digits : cpf).replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4");
+}
+
+/**
+ * Formata um CPF parcialmente digitado, aplicando a máscara XXX.XXX.XXX-XX à medida que os dígitos são digitados.
+ * 
+ * Indicada para campos de formulário: a pontuação digitada é descartada e reaplicada, e a posição do cursor
+ * é recalculada para o valor formatado.
+ * 
+ * @param cpf - O valor digitado.
+ * @param caret - A posição do cursor no valor digitado. O padrão é o final do valor.
+ * 
+ * @returns {PartialFormatResult} O valor formatado, a nova posição do cursor e se o valor ainda pode ser um CPF válido.
+ * 
+ * @example
+ * // Retorna { value: "123.4", caret: 5, kind: "cpf", possible: { cpf: true, cnpj: false }, complete: false }
+ * formatPartial("1234");
+ */
+export function formatPartial(cpf: string, caret: number = cpf.length): PartialFormatResult {
+  return formatPartialDocument(cpf, caret, { cpf: isValid });
 }
 
 export default {
   generate,
+  generateMany,
+  generateStream,
   isValid,
+  validate,
+  normalize,
+  equals,
+  compare,
+  suggest,
+  checkDigits,
+  complete,
+  mask,
+  anonymize,
   format,
+  formatPartial,
 };
@@ -0,0 +1,157 @@
+import cpf from "../cpf";
+import cnpj from "../cnpj";
+import { CNPJ_LENGTH, CPF_LENGTH } from "../constants";
+import { formatPartialDocument } from "../partial";
+import {
+  CNPJ,
+  CPF,
+  DocumentKind,
+  DocumentValidationResult,
+  PartialFormatResult,
+  StrictValidationOptions,
+} from "../types";
+
+/**
+ * Identifica o tipo de um documento (CPF, CNPJ numérico ou CNPJ alfanumérico) a partir do seu
+ * comprimento e dos caracteres utilizados.
+ * 
+ * A identificação não verifica os dígitos verificadores: para isso, utilize `isValid` ou `validate`.
+ * 
+ * @param value - O documento, com ou sem pontuação.
+ * 
+ * @returns {DocumentKind | null} O tipo do documento, ou `null` se não for possível identificá-lo.
+ * 
+ * @example
+ * detect("295.379.955-93"); // "cpf"
+ * detect("25.143.815/0001-50"); // "cnpj-numeric"
+ * detect("12.ABC.345/01DE-35"); // "cnpj-alfanumeric"
+ * detect("1234"); // null
+ */
+function detect(value: string): DocumentKind | null {
+  const cleaned = clean(value);
+
+  if (cleaned.length === CPF_LENGTH && /^\d+$/.test(cleaned)) return "cpf";
+  if (cleaned.length === CNPJ_LENGTH && /^[a-zA-Z0-9]{12}\d{2}$/.test(cleaned)) {
+    return /[a-zA-Z]/.test(cleaned) ? "cnpj-alfanumeric" : "cnpj-numeric";
+  }
+
+  return null;
+}
+
+/**
+ * Valida um documento, identificando automaticamente se é um CPF ou um CNPJ.
+ * 
+ * Em TypeScript, também funciona como type guard: quando retorna `true`, o valor passa a ter o tipo `CPF | CNPJ`.
+ * 
+ * @param value - O documento, com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `cpf.validate` e `cnpj.validate`.
+ * 
+ * @returns {boolean} Retorna `true` se o documento for um CPF ou CNPJ válido e `false` caso contrário.
+ * 
+ * @example
+ * isValid("295.379.955-93"); // true
+ * isValid("25.143.815/0001-50"); // true
+ * isValid("25.143.815/0001-40"); // false
+ * isValid("295.379.955-93!", { strict: true }); // false
+ */
+function isValid(value: string): value is CPF | CNPJ;
+function isValid(value: string, options: StrictValidationOptions): value is CPF | CNPJ;
+function isValid(value: string, options?: StrictValidationOptions): value is CPF | CNPJ {
+  return validate(value, options).valid;
+}
+
+/**
+ * Valida um documento, identificando automaticamente se é um CPF ou um CNPJ, e retorna o resultado
+ * detalhado da validação.
+ * 
+ * Documentos com 11 caracteres são validados como CPF e documentos com 14 caracteres como CNPJ.
+ * Para outros comprimentos, o tipo não é identificado (`kind: null`).
+ * 
+ * @param value - O documento, com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `cpf.validate` e `cnpj.validate`.
+ * 
+ * @returns {DocumentValidationResult} O resultado da validação.
+ * 
+ * @example
+ * // Retorna { valid: false, value: "25143815000140", kind: "cnpj-numeric", reason: "firstCheckDigit", expectedCheckDigits: "50" }
+ * validate("25.143.815/0001-40");
+ */
+function validate(value: string, options?: StrictValidationOptions): DocumentValidationResult {
+  const cleaned = clean(value);
+
+  if (cleaned.length === CNPJ_LENGTH) return cnpj.validate(value, options);
+  if (cleaned.length === CPF_LENGTH) {
+    if (/^\d+$/.test(cleaned)) return cpf.validate(value, options);
+    return { valid: false, value: cleaned, kind: null, reason: "invalidCharacter", expectedCheckDigits: null };
+  }
+
+  return { valid: false, value: cleaned, kind: null, reason: "invalidLength", expectedCheckDigits: null };
+}
+
+/**
+ * Formata um documento de acordo com o tipo identificado: XXX.XXX.XXX-XX para CPF e
+ * XX.XXX.XXX/XXXX-XX para CNPJ.
+ * 
+ * @param value - O documento, com ou sem pontuação.
+ * 
+ * @returns {string} O documento formatado, ou o valor original se o tipo não for identificado.
+ * 
+ * @example
+ * format("29537995593"); // "295.379.955-93"
+ * format("12ABC34501DE35"); // "12.ABC.345/01DE-35"
+ */
+function format(value: string): string {
+  const kind = detect(value);
+
+  if (kind === "cpf") return cpf.format(clean(value));
+  if (kind) return cnpj.format(clean(value));
+  return value;
+}
+
+/**
+ * Formata um CPF ou CNPJ parcialmente digitado, trocando a máscara à medida que o tipo do documento se define.
+ * 
+ * A máscara de CPF (XXX.XXX.XXX-XX) é aplicada enquanto o valor ainda puder ser um CPF válido; a partir
+ * daí, é aplicada a máscara de CNPJ (XX.XXX.XXX/XXXX-XX). O resultado informa se o valor ainda pode ser
+ * um CPF, um CNPJ, ou se já é inválido, o que permite que um único campo aceite os dois documentos.
+ * 
+ * @param value - O valor digitado.
+ * @param caret - A posição do cursor no valor digitado. O padrão é o final do valor.
+ * 
+ * @returns {PartialFormatResult} O valor formatado, a nova posição do cursor e os tipos de documento possíveis.
+ * 
+ * @example
+ * formatPartial("1234"); // { value: "123.4", caret: 5, kind: "cpf", possible: { cpf: true, cnpj: true }, complete: false }
+ * formatPartial("12AB3"); // { value: "12.AB3", caret: 6, kind: "cnpj", possible: { cpf: false, cnpj: true }, complete: false }
+ * formatPartial("123456789012"); // { value: "12.345.678/9012", caret: 15, kind: "cnpj", ... }
+ */
+function formatPartial(value: string, caret: number = value.length): PartialFormatResult {
+  return formatPartialDocument(value, caret, { cpf: cpf.isValid, cnpj: cnpj.isValid });
+}
+
+/**
+ * Remove a pontuação e os demais símbolos de um documento, com a mesma regra utilizada na validação do CNPJ.
+ * 
+ * Letras e dígitos fora do alfabeto do documento (ex: `Ç`) são mantidos, para que `detect` e `validate`
+ * rejeitem o documento da mesma forma.
+ * 
+ * @param value - O documento a ser limpo.
+ * 
+ * @returns {string} O documento sem formatação.
+ * 
+ * @example
+ * clean("295.379.955-93"); // "29537995593"
+ * clean("12.ABC.345/01DE-35"); // "12ABC34501DE35"
+ */
+function clean(value: string): string {
+  return value.replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+export default {
+  detect,
+  isValid,
+  validate,
+  format,
+  formatPartial,
+  clean,
+};
@@ -0,0 +1,37 @@
+import { DocumentKind, DocumentValidationResult, ValidationReason } from "../types";
+
+/**
+ * Erro lançado por `assertCPF`, `parseCPF`, `assertCNPJ` e `parseCNPJ` quando o documento é inválido.
+ * 
+ * Além da mensagem, o erro informa o código, o motivo da rejeição e o tipo de documento identificado, o que
+ * permite tratá-lo sem depender do texto da mensagem.
+ * 
+ * @example
+ * try {
+ *   parseCPF("295.379.955-94");
+ * } catch (error) {
+ *   if (error instanceof InvalidDocumentError) console.log(error.reason); // "secondCheckDigit"
+ * }
+ */
+export class InvalidDocumentError extends Error {
+  /** O código do erro, o mesmo da extensão Joi (ex: `document.cpf.secondCheckDigit`). */
+  readonly code: string;
+  /** O motivo da rejeição. */
+  readonly reason: ValidationReason;
+  /** O tipo de documento identificado, ou `null` quando não foi possível identificá-lo. */
+  readonly kind: DocumentKind | null;
+  /** O documento sem formatação. */
+  readonly value: string;
+  /** Os dígitos verificadores esperados, ou `null` quando não puderam ser calculados. */
+  readonly expectedCheckDigits: string | null;
+
+  constructor(message: string, code: string, result: DocumentValidationResult & { reason: ValidationReason }) {
+    super(message);
+    this.name = "InvalidDocumentError";
+    this.code = code;
+    this.reason = result.reason;
+    this.kind = result.kind;
+    this.value = result.value;
+    this.expectedCheckDigits = result.expectedCheckDigits;
+  }
+}
@@ -0,0 +1,131 @@
+import cpf from "../cpf";
+import cnpj from "../cnpj";
+import { InvalidDocumentError } from "../errors";
+import { formatMessage } from "../messages";
+import {
+  AlphanumericCNPJ,
+  CNPJ,
+  CPF,
+  DocumentValidationResult,
+  NumericCNPJ,
+  StrictValidationOptions,
+} from "../types";
+
+/**
+ * Garante que um valor é um CPF válido, lançando um erro caso contrário.
+ * 
+ * Em TypeScript, após a chamada, o valor passa a ter o tipo `CPF`.
+ * 
+ * @param value - O CPF, com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `cpf.validate`.
+ * 
+ * @throws {InvalidDocumentError} Se o CPF for inválido.
+ * 
+ * @example
+ * assertCPF(input); // input passa a ter o tipo CPF
+ * assertCPF("295.379.955-94"); // Lança InvalidDocumentError com reason "secondCheckDigit"
+ */
+export function assertCPF(value: string, options?: StrictValidationOptions): asserts value is CPF {
+  ensureValid("cpf", cpf.validate(value, options));
+}
+
+/**
+ * Valida um CPF e o retorna sem formatação, lançando um erro se ele for inválido.
+ * 
+ * @param value - O CPF, com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `cpf.validate`.
+ * 
+ * @returns {CPF} O CPF sem formatação.
+ * 
+ * @throws {InvalidDocumentError} Se o CPF for inválido.
+ * 
+ * @example
+ * parseCPF("295.379.955-93"); // "29537995593"
+ */
+export function parseCPF(value: string, options?: StrictValidationOptions): CPF {
+  return ensureValid("cpf", cpf.validate(value, options)) as CPF;
+}
+
+/**
+ * Garante que um valor é um CNPJ válido (numérico ou alfanumérico), lançando um erro caso contrário.
+ * 
+ * Em TypeScript, após a chamada, o valor passa a ter o tipo `CNPJ`.
+ * 
+ * @param value - O CNPJ, com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `cnpj.validate`.
+ * 
+ * @throws {InvalidDocumentError} Se o CNPJ for inválido.
+ * 
+ * @example
+ * assertCNPJ(input); // input passa a ter o tipo CNPJ
+ * assertCNPJ("25.143.815/0001-40"); // Lança InvalidDocumentError com reason "firstCheckDigit"
+ */
+export function assertCNPJ(value: string, options?: StrictValidationOptions): asserts value is CNPJ {
+  ensureValid("cnpj", cnpj.validate(value, options));
+}
+
+/**
+ * Valida um CNPJ (numérico ou alfanumérico) e o retorna sem formatação, lançando um erro se ele for inválido.
+ * 
+ * @param value - O CNPJ, com ou sem pontuação.
+ * @param {StrictValidationOptions} [options] - Opções do modo estrito, como em `cnpj.validate`.
+ * 
+ * @returns {CNPJ} O CNPJ sem formatação.
+ * 
+ * @throws {InvalidDocumentError} Se o CNPJ for inválido.
+ * 
+ * @example
+ * parseCNPJ("12.ABC.345/01DE-35"); // "12ABC34501DE35"
+ */
+export function parseCNPJ(value: string, options?: StrictValidationOptions): CNPJ {
+  return ensureValid("cnpj", cnpj.validate(value, options)) as CNPJ;
+}
+
+/**
+ * Verifica se um valor é um CNPJ válido composto apenas por números.
+ * 
+ * @param value - O CNPJ, com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se o CNPJ for válido e numérico. Em TypeScript, o valor passa a ter o
+ * tipo `NumericCNPJ`.
+ * 
+ * @example
+ * isNumericCNPJ("25.143.815/0001-50"); // true
+ * isNumericCNPJ("12.ABC.345/01DE-35"); // false
+ */
+export function isNumericCNPJ(value: string): value is NumericCNPJ {
+  const result = cnpj.validate(value);
+  return result.valid && result.kind === "cnpj-numeric";
+}
+
+/**
+ * Verifica se um valor é um CNPJ válido com letras na base.
+ * 
+ * @param value - O CNPJ, com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se o CNPJ for válido e alfanumérico. Em TypeScript, o valor passa a ter o
+ * tipo `AlphanumericCNPJ`.
+ * 
+ * @example
+ * isAlphanumericCNPJ("12.ABC.345/01DE-35"); // true
+ * isAlphanumericCNPJ("25.143.815/0001-50"); // false
+ */
+export function isAlphanumericCNPJ(value: string): value is AlphanumericCNPJ {
+  const result = cnpj.validate(value);
+  return result.valid && result.kind === "cnpj-alfanumeric";
+}
+
+/**
+ * Lança um `InvalidDocumentError` se o resultado da validação indicar um documento inválido.
+ * 
+ * @param rule - O nome da regra, utilizado no código do erro.
+ * @param result - O resultado da validação.
+ * 
+ * @returns {string} O documento sem formatação, quando ele é válido.
+ */
+function ensureValid(rule: "cpf" | "cnpj", result: DocumentValidationResult): string {
+  if (result.valid || !result.reason) return result.value;
+
+  const code = `document.${rule}.${result.reason}`;
+  throw new InvalidDocumentError(formatMessage(code), code, { ...result, reason: result.reason });
+}
@@ -1,37 +1,438 @@
 import cpf from "./cpf";
 import cnpj from "./cnpj";
+import { cleanCNPJ } from "./cnpj/clean";
+import document from "./document";
+import pis from "./pis";
+import tituloEleitor from "./titulo-eleitor";
+import inscricaoEstadual from "./inscricao-estadual";
+import cnh from "./cnh";
+import renavam from "./renavam";
+import cns from "./cns";
+import pix from "./pix";
+import { describeKind, locales } from "./messages";
+import { createSeededRandom, secureRandom } from "./random";
+import { createValidationStream, validateBatch } from "./batch-validation";
+import {
+  assertCNPJ,
+  assertCPF,
+  isAlphanumericCNPJ,
+  isNumericCNPJ,
+  parseCNPJ,
+  parseCPF,
+} from "./guards";
+import { InvalidDocumentError } from "./errors";
+import {
+  DocumentRuleOptions,
+  DocumentValidationResult,
+  DocumentValidatorOptions,
+  InscricaoEstadualRuleOptions,
+  PixKeyRuleOptions,
+  StrictDocumentRuleOptions,
+} from "./types";
 
-export { cpf, cnpj };
-
-export const documentValidator = (joi: any) => ({
-  type: "document",
-  base: joi.string().allow(null).messages({
-    "string.empty": "{{#label}} não pode ser vazio",
-    "any.required": "{{#label}} é obrigatório",
-  }),
-  messages: {
-    "document.cpf": "CPF inválido",
-    "document.cnpj": "CNPJ inválido",
-  },
-  rules: {
-    cpf: {
-      validate(value: any, helpers: any) {
-        if (value !== null && !cpf.isValid(value)) 
-          return helpers.error("document.cpf");
+export {
+  cpf,
+  cnpj,
+  document,
+  pis,
+  tituloEleitor,
+  inscricaoEstadual,
+  cnh,
+  renavam,
+  cns,
+  pix,
+  createSeededRandom,
+  secureRandom,
+  createValidationStream,
+  validateBatch,
+  assertCPF,
+  parseCPF,
+  assertCNPJ,
+  parseCNPJ,
+  isNumericCNPJ,
+  isAlphanumericCNPJ,
+  InvalidDocumentError,
+};
+export type {
+  DocumentKind,
+  ValidationReason,
+  ValidationResult,
+  DocumentValidationResult,
+  Brand,
+  CPF,
+  FormattedCPF,
+  CNPJ,
+  FormattedCNPJ,
+  NumericCNPJ,
+  AlphanumericCNPJ,
+  ParsedCNPJ,
+  CNPJRootGroup,
+  RandomSource,
+  RandomOptions,
+  DocumentRuleOptions,
+  DocumentValidatorOptions,
+  MessageLocale,
+  StrictValidationOptions,
+  StrictDocumentRuleOptions,
+  InscricaoEstadualRuleOptions,
+  ParsedTituloEleitor,
+  UF,
+  Suggestion,
+  SuggestionResult,
+  MaskOptions,
+  PartialFormatResult,
+  PixKeyType,
+  PixKeyRuleOptions,
+  BatchValidationOptions,
+  BatchDuplicate,
+  BatchReport,
+} from "./types";
+
+interface RuleArgs {
+  options?: DocumentRuleOptions;
+}
+
+interface StrictRuleArgs {
+  options?: StrictDocumentRuleOptions;
+}
+
+interface InscricaoEstadualRuleArgs {
+  uf: unknown;
+  options?: InscricaoEstadualRuleOptions;
+}
+
+interface PixKeyRuleArgs {
+  options?: PixKeyRuleOptions;
+}
+
+interface RuleFormatters {
+  clean(value: string): string;
+  format(value: string): string;
+}
+
+const ruleOptionsArg = {
+  name: "options",
+  assert: (options: unknown) => options === undefined || (typeof options === "object" && options !== null),
+  message: "must be an object",
+};
+
+/**
+ * Cria a extensão Joi com o tipo `document` e as regras de validação de documentos.
+ * 
+ * Pode ser chamada com as opções da extensão, ou passada diretamente para `Joi.extend`, com as opções padrão.
+ * 
+ * @param {DocumentValidatorOptions} [options] - Opções da extensão.
+ * @param {MessageLocale} [options.locale] - O idioma das mensagens de erro: `'pt-BR'` (padrão), `'en'` ou `'es'`.
+ * @param {Record<string, string>} [options.messages] - Mensagens utilizadas no lugar das mensagens do idioma.
+ * @param {boolean} [options.allowNull] - Se falso, o valor `null` é rejeitado. O padrão é verdadeiro.
+ * 
+ * @returns A extensão a ser registrada com `Joi.extend`.
+ * 
+ * @example
+ * const joi = Joi.extend(documentValidator({ locale: "en", allowNull: false }));
+ * 
+ * // Com as opções padrão
+ * const joi = Joi.extend(documentValidator);
+ */
+export function documentValidator(options?: DocumentValidatorOptions): (joi: any) => any;
+export function documentValidator(joi: any): any;
+export function documentValidator(joiOrOptions?: any): any {
+  if (typeof joiOrOptions?.isSchema === "function") return createExtension(joiOrOptions, {});
+  return (joi: any) => createExtension(joi, joiOrOptions ?? {});
+}
+
+/**
+ * Cria a extensão Joi para uma instância do Joi, de acordo com as opções.
+ * 
+ * @param joi - A instância do Joi.
+ * @param options - As opções da extensão.
+ * 
+ * @returns A extensão Joi.
+ */
+function createExtension(joi: any, options: DocumentValidatorOptions) {
+  const locale = options.locale ?? "pt-BR";
+  const messages = { ...locales[locale].messages, ...options.messages };
+  const base = joi.string().messages({
+    "string.base": messages["string.base"],
+    "string.empty": messages["string.empty"],
+    "any.required": messages["any.required"],
+  });
+
+  /**
+   * Retorna o contexto dos erros de uma validação, com o tipo identificado, o motivo da falha e o nome
+   * do documento no idioma da extensão.
+   */
+  const describeResult = (result: DocumentValidationResult) => ({
+    kind: result.kind,
+    reason: result.reason,
+    document: describeKind(result.kind, locale),
+  });
+
+  return {
+    type: "document",
+    base: options.allowNull === false ? base : base.allow(null),
+    messages,
+    // Com `allowNull: false`, o `null` é rejeitado com uma mensagem própria, no lugar da mensagem de `string.base`
+    prepare: options.allowNull === false
+      ? (value: unknown, helpers: any) => (value === null ? { value, errors: helpers.error("document.null") } : undefined)
+      : undefined,
+    rules: {
+      cpf: {
+        method(this: any, options?: StrictDocumentRuleOptions) {
+          return this.$_addRule({ name: "cpf", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: StrictRuleArgs) {
+          if (value === null) return value;
+
+          const result = cpf.validate(value, options);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.cpf.${result.reason}`, context);
         
-        return value;
+          return applyRuleOptions(value, helpers, "cpf", options, {
+            clean: (cpf: string) => cpf.replace(/\D/g, ""),
+            format: cpf.format,
+          }, context);
+        },
       },
-    },
-    cnpj: {
-      validate(value: any, helpers: any) {
-        if (value !== null && !cnpj.isValid(value))
-          return helpers.error("document.cnpj");
+      cnpj: {
+        method(this: any, options?: StrictDocumentRuleOptions) {
+          return this.$_addRule({ name: "cnpj", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: StrictRuleArgs) {
+          if (value === null) return value;
+
+          const result = cnpj.validate(value, options);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.cnpj.${result.reason}`, context);
+
+          return applyRuleOptions(value, helpers, "cnpj", options, {
+            clean: cleanCNPJ,
+            format: cnpj.format,
+          }, context);
+        },
+      },
+      pis: {
+        method(this: any, options?: DocumentRuleOptions) {
+          return this.$_addRule({ name: "pis", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: RuleArgs) {
+          if (value === null) return value;
+
+          const result = pis.validate(value);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.pis.${result.reason}`, context);
+
+          return applyRuleOptions(value, helpers, "pis", options, {
+            clean: (pis: string) => pis.replace(/\D/g, ""),
+            format: pis.format,
+          }, context);
+        },
+      },
+      tituloEleitor: {
+        method(this: any, options?: DocumentRuleOptions) {
+          return this.$_addRule({ name: "tituloEleitor", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: RuleArgs) {
+          if (value === null) return value;
+
+          const result = tituloEleitor.validate(value);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.tituloEleitor.${result.reason}`, context);
+
+          return applyRuleOptions(value, helpers, "tituloEleitor", options, {
+            clean: (titulo: string) => titulo.replace(/\D/g, ""),
+            format: tituloEleitor.format,
+          }, context);
+        },
+      },
+      cnh: {
+        method(this: any, options?: DocumentRuleOptions) {
+          return this.$_addRule({ name: "cnh", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: RuleArgs) {
+          if (value === null) return value;
+
+          const result = cnh.validate(value);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.cnh.${result.reason}`, context);
 
-        return value;
+          return applyRuleOptions(value, helpers, "cnh", options, {
+            clean: (cnh: string) => cnh.replace(/\D/g, ""),
+            format: cnh.format,
+          }, context);
+        },
+      },
+      renavam: {
+        method(this: any, options?: DocumentRuleOptions) {
+          return this.$_addRule({ name: "renavam", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: RuleArgs) {
+          if (value === null) return value;
+
+          const result = renavam.validate(value);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.renavam.${result.reason}`, context);
+
+          return applyRuleOptions(value, helpers, "renavam", options, {
+            clean: (renavam: string) => renavam.replace(/\D/g, ""),
+            format: renavam.format,
+          }, context);
+        },
+      },
+      cns: {
+        method(this: any, options?: DocumentRuleOptions) {
+          return this.$_addRule({ name: "cns", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: RuleArgs) {
+          if (value === null) return value;
+
+          const result = cns.validate(value);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.cns.${result.reason}`, context);
+
+          return applyRuleOptions(value, helpers, "cns", options, {
+            clean: (cns: string) => cns.replace(/\D/g, ""),
+            format: cns.format,
+          }, context);
+        },
+      },
+      inscricaoEstadual: {
+        method(this: any, uf: unknown, options?: InscricaoEstadualRuleOptions) {
+          return this.$_addRule({ name: "inscricaoEstadual", args: { uf, options } });
+        },
+        args: [
+          {
+            name: "uf",
+            ref: true,
+            assert: (uf: unknown) => uf === undefined || uf === null || typeof uf === "string",
+            message: "must be a string",
+          },
+          ruleOptionsArg,
+        ],
+        validate(value: any, helpers: any, { uf, options }: InscricaoEstadualRuleArgs) {
+          if (value === null) return value;
+
+          const context = { uf };
+          if (typeof uf !== "string" || !inscricaoEstadual.isState(uf))
+            return helpers.error("document.inscricaoEstadual.invalidState", context);
+          if (inscricaoEstadual.isExempt(value) && options?.allowExempt === false)
+            return helpers.error("document.inscricaoEstadual.exempt", context);
+          if (!inscricaoEstadual.isValid(uf, value))
+            return helpers.error("document.inscricaoEstadual.invalid", context);
+
+          return applyRuleOptions(value, helpers, "inscricaoEstadual", options, {
+            clean: inscricaoEstadual.clean,
+            format: (inscricao: string) => inscricaoEstadual.format(uf, inscricao),
+          }, context);
+        },
+      },
+      pixKey: {
+        method(this: any, options?: PixKeyRuleOptions) {
+          return this.$_addRule({ name: "pixKey", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: PixKeyRuleArgs) {
+          if (value === null) return value;
+
+          const context = { type: pix.detect(value) };
+          if (context.type && options?.types && !options.types.includes(context.type))
+            return helpers.error("document.pixKey.type", context);
+
+          const normalized = pix.normalize(value);
+          if (normalized === null)
+            return helpers.error("document.pixKey.invalid", context);
+
+          if (!options?.normalize || normalized === value) return value;
+          if (helpers.prefs.convert) return normalized;
+          return helpers.error("document.pixKey.normalized", context);
+        },
+      },
+      cpfOrCnpj: {
+        method(this: any, options?: StrictDocumentRuleOptions) {
+          return this.$_addRule({ name: "cpfOrCnpj", args: { options } });
+        },
+        args: [ruleOptionsArg],
+        validate(value: any, helpers: any, { options }: StrictRuleArgs) {
+          if (value === null) return value;
+
+          const result = document.validate(value, options);
+          const context = describeResult(result);
+          if (!result.valid)
+            return helpers.error(`document.cpfOrCnpj.${result.reason}`, context);
+
+          return applyRuleOptions(value, helpers, "cpfOrCnpj", options, {
+            clean: cleanCNPJ,
+            format: document.format,
+          }, context);
+        },
       },
     },
-  },
-});
+  };
+}
 
-export default documentValidator;
+/**
+ * Aplica as opções de formatação de entrada e saída de uma regra a um documento já validado.
+ * 
+ * Quando a opção `convert` do Joi está desativada, o documento não é convertido: se ele não estiver
+ * na forma exigida por `output` ou `uppercase`, um erro é retornado.
+ * 
+ * @param value - O documento validado, como foi informado.
+ * @param helpers - Os helpers da regra Joi.
+ * @param rule - O nome da regra, utilizado no código do erro.
+ * @param options - As opções da regra.
+ * @param formatters - As funções que removem e aplicam a formatação do documento.
+ * @param context - Contexto adicional incluído nos erros.
+ * 
+ * @returns O documento na forma exigida pelas opções, ou um erro do Joi.
+ * 
+ * @example
+ * // Retorna "29537995593"
+ * applyRuleOptions("295.379.955-93", helpers, "cpf", { output: "clean" }, formatters);
+ */
+function applyRuleOptions(
+  value: string,
+  helpers: any,
+  rule: string,
+  options: DocumentRuleOptions | undefined,
+  formatters: RuleFormatters,
+  context?: object
+) {
+  const cleaned = formatters.clean(value);
+  const formatted = formatters.format(cleaned);
+  // A formatação é verificada sem considerar a caixa das letras, que é tratada pela opção `uppercase`
+  const upperValue = value.toUpperCase();
 
+  if (options?.input === "masked" && upperValue !== formatted)
+    return helpers.error(`document.${rule}.unmasked`, context);
+  if (options?.input === "unmasked" && upperValue !== cleaned)
+    return helpers.error(`document.${rule}.masked`, context);
+
+  let output = value;
+  if (options?.output === "clean") output = cleaned;
+  if (options?.output === "formatted") output = formatted;
+  if (options?.uppercase) output = output.toUpperCase();
+
+  if (output === value || helpers.prefs.convert) return output;
+
+  if (options?.output === "clean" && upperValue !== cleaned)
+    return helpers.error(`document.${rule}.masked`, context);
+  if (options?.output === "formatted" && upperValue !== formatted)
+    return helpers.error(`document.${rule}.unmasked`, context);
+  return helpers.error(`document.${rule}.lowercase`, context);
+}
+
+export default documentValidator;
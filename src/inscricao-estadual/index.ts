@@ -0,0 +1,232 @@
+import { MAX_GENERATE_ATTEMPTS } from "../constants";
+import { resolveRandom } from "../random";
+import { RandomOptions, RandomSource, UF } from "../types";
+import { STATES, StateVariant } from "./states";
+
+interface InscricaoEstadualOptions {
+  allowExempt?: boolean;
+}
+
+interface InscricaoEstadualGenerateOptions extends RandomOptions {
+  formatted?: boolean;
+}
+
+const EXEMPT = "ISENTO";
+
+/**
+ * Gera um número de inscrição estadual válido para a UF informada.
+ * 
+ * @param uf - A UF da inscrição estadual.
+ * @param {InscricaoEstadualGenerateOptions} [options] - Opções para a geração da inscrição estadual.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna a inscrição no formato adotado pela UF.
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
+ * 
+ * @returns {string} A inscrição estadual gerada, podendo ser formatada ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a UF informada não existir ou se a fonte de números aleatórios gerar apenas inscrições
+ * inválidas (ex: uma função que retorna sempre o mesmo valor), após um número limitado de tentativas.
+ * 
+ * @example
+ * // Retorna uma inscrição estadual de SP, como '110042490114'
+ * generate('SP');
+ * 
+ * @example
+ * // Retorna uma inscrição estadual de SP formatada, como '110.042.490.114'
+ * generate('SP', { formatted: true });
+ */
+export function generate(uf: UF, options?: InscricaoEstadualGenerateOptions): string {
+  const [variant] = getVariants(uf);
+  const random = resolveRandom(options);
+
+  for (let attempt = 0; attempt < MAX_GENERATE_ATTEMPTS; attempt++) {
+    const digits = variant.complete(generateBase(variant, random));
+    if (!matches(variant, digits)) continue;
+
+    const inscricao = digits.join("");
+    return options?.formatted ? format(uf, inscricao) : inscricao;
+  }
+
+  throw new Error(`Não foi possível gerar uma inscrição estadual válida para ${uf} com a fonte de números aleatórios informada`);
+}
+
+/**
+ * Valida uma inscrição estadual de acordo com as regras da UF informada.
+ * 
+ * A função limpa a inscrição, identifica qual dos formatos aceitos pela UF ela segue e recalcula os
+ * dígitos verificadores. O valor `ISENTO`, utilizado por contribuintes sem inscrição, é aceito por padrão.
+ * 
+ * @param uf - A UF da inscrição estadual. Se a UF não existir, a inscrição é considerada inválida.
+ * @param inscricao - A inscrição estadual a ser validada, que pode estar no formato com ou sem pontuação.
+ * @param {InscricaoEstadualOptions} [options] - Opções de validação.
+ * @param {boolean} [options.allowExempt] - Se falso, o valor `ISENTO` é considerado inválido. O padrão é verdadeiro.
+ * 
+ * @returns {boolean} Retorna `true` se a inscrição estadual for válida e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true
+ * isValid("SP", "110.042.490.114");
+ * 
+ * // Retorna false se o valor ISENTO não for aceito
+ * isValid("SP", "ISENTO", { allowExempt: false });
+ */
+export function isValid(uf: string, inscricao: string, options?: InscricaoEstadualOptions): boolean {
+  if (isExempt(inscricao)) return options?.allowExempt !== false && isState(uf);
+  if (!isState(uf)) return false;
+
+  const cleaned = clean(inscricao).toUpperCase();
+  return getVariants(uf).some((variant) => {
+    if (variant.letter && !cleaned.startsWith(variant.letter)) return false;
+
+    const value = variant.letter ? cleaned.slice(1) : cleaned;
+    if (!new RegExp(`^\\d{${variant.length}}$`).test(value)) return false;
+
+    const digits = value.split("").map(Number);
+    return matches(variant, digits) && variant.complete(digits).join("") === value;
+  });
+}
+
+/**
+ * Verifica se o valor informado indica um contribuinte isento de inscrição estadual.
+ * 
+ * @param inscricao - O valor a ser verificado.
+ * 
+ * @returns {boolean} Retorna `true` se o valor for `ISENTO`, sem diferenciar maiúsculas de minúsculas.
+ * 
+ * @example
+ * // Retorna true
+ * isExempt(" isento ");
+ */
+export function isExempt(inscricao: string): boolean {
+  return inscricao.trim().toUpperCase() === EXEMPT;
+}
+
+/**
+ * Formata uma inscrição estadual no formato adotado pela UF informada.
+ * 
+ * @param uf - A UF da inscrição estadual.
+ * @param inscricao - A inscrição estadual a ser formatada, com ou sem pontuação.
+ * 
+ * @returns {string} A inscrição estadual formatada, ou a inscrição sem pontuação se o seu tamanho não
+ * corresponder a nenhum formato da UF. O valor `ISENTO` é retornado em letras maiúsculas.
+ * 
+ * @throws {Error} Se a UF informada não existir.
+ * 
+ * @example
+ * // Retorna "110.042.490.114"
+ * format("SP", "110042490114");
+ * 
+ * // Retorna "P-01100424.3/002"
+ * format("SP", "P011004243002");
+ */
+export function format(uf: string, inscricao: string): string {
+  const variants = getVariants(uf);
+  if (isExempt(inscricao)) return EXEMPT;
+
+  const cleaned = clean(inscricao).toUpperCase();
+  const variant = variants.find(({ length, letter }) =>
+    letter ? cleaned.startsWith(letter) && cleaned.length === length + 1 : cleaned.length === length
+  );
+  if (!variant) return cleaned;
+
+  const characters = (variant.letter ? cleaned.slice(1) : cleaned).split("");
+  let index = 0;
+  return variant.layout.replace(/X/g, () => characters[index++]);
+}
+
+/**
+ * Remove a pontuação de uma inscrição estadual.
+ * 
+ * @param inscricao - A inscrição estadual.
+ * 
+ * @returns {string} A inscrição estadual contendo apenas letras e dígitos.
+ * 
+ * @example
+ * // Retorna "P011004243002"
+ * clean("P-01100424.3/002");
+ */
+export function clean(inscricao: string): string {
+  return inscricao.replace(/[^a-zA-Z0-9]/g, "");
+}
+
+/**
+ * Verifica se o valor informado é uma UF existente.
+ * 
+ * @param uf - A sigla da UF.
+ * 
+ * @returns {boolean} Retorna `true` se a UF existir.
+ * 
+ * @example
+ * // Retorna false
+ * isState("XX");
+ */
+export function isState(uf: string): uf is UF {
+  return Object.prototype.hasOwnProperty.call(STATES, uf);
+}
+
+/**
+ * Retorna os formatos de inscrição estadual aceitos pela UF informada.
+ * 
+ * @param uf - A sigla da UF.
+ * 
+ * @returns {StateVariant[]} Os formatos da UF, sendo o primeiro o utilizado na geração.
+ * 
+ * @throws {Error} Se a UF informada não existir.
+ * 
+ * @example
+ * // Retorna os formatos de 8 e 9 dígitos da Bahia
+ * getVariants("BA");
+ */
+function getVariants(uf: string): StateVariant[] {
+  if (!isState(uf)) throw new Error(`UF inválida: ${uf}`);
+  return STATES[uf];
+}
+
+/**
+ * Gera os dígitos de uma inscrição estadual, começando por um dos prefixos do formato.
+ * Os dígitos verificadores ainda precisam ser calculados.
+ * 
+ * @param variant - O formato da inscrição estadual.
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {number[]} Um array com a quantidade de dígitos do formato.
+ * 
+ * @example
+ * // Exemplo de retorno para MA: [1, 2, 0, 0, 0, 0, 3, 8, 7]
+ * generateBase(STATES.MA[0], Math.random);
+ */
+function generateBase(variant: StateVariant, random: RandomSource): number[] {
+  const prefixes = variant.prefixes ?? [""];
+  const prefix = prefixes[Math.floor(random() * prefixes.length)].split("").map(Number);
+
+  return [
+    ...prefix,
+    ...Array.from({ length: variant.length - prefix.length }, () => Math.floor(random() * 10)),
+  ];
+}
+
+/**
+ * Verifica se os dígitos de uma inscrição estadual seguem as restrições do formato, como o prefixo da UF.
+ * 
+ * @param variant - O formato da inscrição estadual.
+ * @param digits - Os dígitos da inscrição estadual.
+ * 
+ * @returns {boolean} Retorna `true` se os dígitos seguirem o formato.
+ * 
+ * @example
+ * // Retorna false, pois as inscrições do Maranhão começam com 12
+ * matches(STATES.MA[0], [1, 3, 0, 0, 0, 0, 3, 8, 5]);
+ */
+function matches(variant: StateVariant, digits: number[]): boolean {
+  return !variant.pattern || variant.pattern.test(digits.join(""));
+}
+
+export default {
+  generate,
+  isValid,
+  isExempt,
+  format,
+  clean,
+  isState,
+};
@@ -0,0 +1,322 @@
+import { UF } from "../types";
+
+/**
+ * Uma das formas válidas de inscrição estadual de uma UF.
+ */
+interface StateVariant {
+  /** Quantidade de dígitos da inscrição. */
+  length: number;
+  /** Letra que antecede os dígitos (ex: `P` para o produtor rural de SP). */
+  letter?: string;
+  /** Prefixos válidos, utilizados na geração. Se não for especificado, qualquer prefixo é aceito. */
+  prefixes?: string[];
+  /** Expressão regular que os dígitos devem satisfazer, além dos dígitos verificadores. */
+  pattern?: RegExp;
+  /** Layout da inscrição formatada, em que cada `X` representa um dígito. */
+  layout: string;
+  /** Recalcula os dígitos verificadores, retornando a inscrição completa. */
+  complete(digits: number[]): number[];
+}
+
+/**
+ * Calcula a soma ponderada de uma sequência de dígitos.
+ * 
+ * @param digits - Os dígitos.
+ * @param weights - Os pesos de cada posição.
+ * 
+ * @returns {number} A soma dos produtos de cada dígito pelo seu peso.
+ * 
+ * @example
+ * // Retorna 8
+ * weightedSum([1, 2], [2, 3]);
+ */
+function weightedSum(digits: number[], weights: number[]): number {
+  return weights.reduce((acc, weight, index) => acc + digits[index] * weight, 0);
+}
+
+/**
+ * Gera a sequência de pesos decrescentes de `from` até `to`.
+ * 
+ * @example
+ * // Retorna [9, 8, 7, 6, 5, 4, 3, 2]
+ * descending(9);
+ */
+function descending(from: number, to: number = 2): number[] {
+  return Array.from({ length: from - to + 1 }, (_, index) => from - index);
+}
+
+/**
+ * Dígito verificador módulo 11 mais comum: 0 se o resto for menor que 2; caso contrário, 11 menos o resto.
+ */
+function mod11(sum: number): number {
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+/**
+ * Dígito verificador módulo 11 em que 11 menos o resto igual a 10 ou 11 resulta em 0.
+ */
+function mod11Complement(sum: number): number {
+  const digit = 11 - (sum % 11);
+  return digit >= 10 ? 0 : digit;
+}
+
+/**
+ * Dígito verificador em que o resto da divisão da soma multiplicada por 10 por 11 é o dígito (10 resulta em 0).
+ */
+function mod11Times10(sum: number): number {
+  const rest = (sum * 10) % 11;
+  return rest === 10 ? 0 : rest;
+}
+
+/**
+ * Dígito verificador módulo 10: 0 se o resto for 0; caso contrário, 10 menos o resto.
+ */
+function mod10(sum: number): number {
+  const rest = sum % 10;
+  return rest === 0 ? 0 : 10 - rest;
+}
+
+/**
+ * Cria uma variante com um único dígito verificador no final, calculado com os pesos informados.
+ * Se `weights` não for especificado, os pesos decrescem de `length` até 2.
+ */
+function singleDigit(
+  length: number,
+  layout: string,
+  calculate: (sum: number, digits: number[]) => number,
+  { weights = descending(length), ...extra }: Pick<StateVariant, "prefixes" | "pattern"> & { weights?: number[] } = {}
+): StateVariant {
+  return {
+    length,
+    layout,
+    ...extra,
+    complete: (digits) => {
+      const base = digits.slice(0, length - 1);
+      return [...base, calculate(weightedSum(base, weights), base)];
+    },
+  };
+}
+
+/**
+ * Cria uma variante com dois dígitos verificadores no final, cada um calculado sobre todos os dígitos anteriores.
+ */
+function twoDigits(
+  length: number,
+  layout: string,
+  firstWeights: number[],
+  secondWeights: number[],
+  calculate: (sum: number) => number,
+  extra?: Pick<StateVariant, "prefixes" | "pattern">
+): StateVariant {
+  return {
+    length,
+    layout,
+    ...extra,
+    complete: (digits) => {
+      const base = digits.slice(0, length - 2);
+      const firstDigit = calculate(weightedSum(base, firstWeights));
+      const secondDigit = calculate(weightedSum([...base, firstDigit], secondWeights));
+      return [...base, firstDigit, secondDigit];
+    },
+  };
+}
+
+/**
+ * Cria a variante da Bahia, em que o segundo dígito verificador é calculado antes do primeiro e o módulo
+ * (10 ou 11) depende do dígito na posição `testPosition`.
+ */
+function bahia(length: number, layout: string): StateVariant {
+  const testPosition = length - 8;
+  return {
+    length,
+    layout,
+    complete: (digits) => {
+      const base = digits.slice(0, length - 2);
+      const calculate = [6, 7, 9].includes(base[testPosition]) ? mod11 : mod10;
+      const secondDigit = calculate(weightedSum(base, descending(length - 1)));
+      const firstDigit = calculate(weightedSum([...base, secondDigit], descending(length)));
+      return [...base, firstDigit, secondDigit];
+    },
+  };
+}
+
+/**
+ * Regras de inscrição estadual de cada UF, conforme as especificações do SINTEGRA.
+ * A primeira variante de cada UF é utilizada na geração.
+ */
+const STATES: Record<UF, StateVariant[]> = {
+  AC: [
+    twoDigits(13, "XX.XXX.XXX/XXX-XX", [4, 3, 2, ...descending(9)], [5, 4, 3, 2, ...descending(9)], mod11Complement, {
+      prefixes: ["01"],
+      pattern: /^01/,
+    }),
+  ],
+  AL: [
+    singleDigit(9, "XXXXXXXXX", mod11Times10, {
+      prefixes: ["240", "243", "245", "247", "248"],
+      pattern: /^24[03578]/,
+    }),
+  ],
+  AM: [
+    singleDigit(9, "XX.XXX.XXX-X", (sum) => (sum < 11 ? 11 - sum : mod11(sum))),
+  ],
+  AP: [
+    {
+      length: 9,
+      layout: "XXXXXXXXX",
+      prefixes: ["03"],
+      pattern: /^03/,
+      complete: (digits) => {
+        const base = digits.slice(0, 8);
+        const number = Number(base.join(""));
+        const [p, d] = number <= 3017000 ? [5, 0] : number <= 3019022 ? [9, 1] : [0, 0];
+        const digit = 11 - ((p + weightedSum(base, descending(9))) % 11);
+        return [...base, digit === 10 ? 0 : digit === 11 ? d : digit];
+      },
+    },
+  ],
+  BA: [bahia(9, "XXXXXXX-XX"), bahia(8, "XXXXXX-XX")],
+  CE: [singleDigit(9, "XXXXXXXX-X", mod11Complement)],
+  DF: [
+    twoDigits(13, "XX.XXXXXX.XXX-XX", [4, 3, 2, ...descending(9)], [5, 4, 3, 2, ...descending(9)], mod11Complement, {
+      prefixes: ["07"],
+      pattern: /^07/,
+    }),
+  ],
+  ES: [singleDigit(9, "XXX.XXX.XX-X", mod11)],
+  GO: [
+    singleDigit(
+      9,
+      "XX.XXX.XXX-X",
+      (sum, base) => {
+        const rest = sum % 11;
+        const number = Number(base.join(""));
+        if (rest === 1) return number >= 10103105 && number <= 10119997 ? 1 : 0;
+        return rest === 0 ? 0 : 11 - rest;
+      },
+      { prefixes: ["10", "11", "15"], pattern: /^(10|11|15|2\d)/ }
+    ),
+  ],
+  MA: [singleDigit(9, "XXXXXXXXX", mod11, { prefixes: ["12"], pattern: /^12/ })],
+  MG: [
+    {
+      length: 13,
+      layout: "XXX.XXX.XXX/XXXX",
+      complete: (digits) => {
+        const base = digits.slice(0, 11);
+        const expanded = [...base.slice(0, 3), 0, ...base.slice(3)];
+        const sum = expanded
+          .map((digit, index) => digit * (index % 2 === 0 ? 1 : 2))
+          .join("")
+          .split("")
+          .reduce((acc, digit) => acc + Number(digit), 0);
+        const firstDigit = mod10(sum);
+        const secondDigit = mod11(weightedSum([...base, firstDigit], [3, 2, ...descending(11)]));
+        return [...base, firstDigit, secondDigit];
+      },
+    },
+  ],
+  MS: [
+    singleDigit(
+      9,
+      "XXXXXXXXX",
+      (sum) => {
+        const rest = sum % 11;
+        return rest === 0 || 11 - rest > 9 ? 0 : 11 - rest;
+      },
+      { prefixes: ["28", "50"], pattern: /^(28|50)/ }
+    ),
+  ],
+  MT: [singleDigit(11, "XXXXXXXXXX-X", mod11, { weights: [3, 2, ...descending(9)] })],
+  PA: [singleDigit(9, "XX-XXXXXX-X", mod11, { prefixes: ["15"], pattern: /^15/ })],
+  PB: [singleDigit(9, "XXXXXXXX-X", mod11Complement)],
+  PE: [twoDigits(9, "XXXXXXX-XX", descending(8), descending(9), mod11)],
+  PI: [singleDigit(9, "XXXXXXXXX", mod11Complement, { prefixes: ["19"], pattern: /^19/ })],
+  PR: [twoDigits(10, "XXXXXXXX-XX", [3, 2, ...descending(7)], [4, 3, 2, ...descending(7)], mod11)],
+  RJ: [
+    {
+      length: 8,
+      layout: "XX.XXX.XX-X",
+      complete: (digits) => {
+        const base = digits.slice(0, 7);
+        return [...base, mod11(weightedSum(base, [2, ...descending(7)]))];
+      },
+    },
+  ],
+  RN: [
+    singleDigit(9, "XX.XXX.XXX-X", mod11Times10, { prefixes: ["20"], pattern: /^20/ }),
+    singleDigit(10, "XX.X.XXX.XXX-X", mod11Times10, { prefixes: ["20"], pattern: /^20/ }),
+  ],
+  RO: [
+    singleDigit(
+      14,
+      "XXXXXXXXXXXXX-X",
+      (sum) => {
+        const digit = 11 - (sum % 11);
+        return digit >= 10 ? digit - 10 : digit;
+      },
+      { weights: [6, 5, 4, 3, 2, ...descending(9)] }
+    ),
+  ],
+  RR: [
+    {
+      length: 9,
+      layout: "XXXXXXXX-X",
+      prefixes: ["24"],
+      pattern: /^24/,
+      complete: (digits) => {
+        const base = digits.slice(0, 8);
+        return [...base, weightedSum(base, [1, 2, 3, 4, 5, 6, 7, 8]) % 9];
+      },
+    },
+  ],
+  RS: [
+    {
+      length: 10,
+      layout: "XXX/XXXXXXX",
+      pattern: /^(?!000)/,
+      complete: (digits) => {
+        const base = digits.slice(0, 9);
+        return [...base, mod11Complement(weightedSum(base, [2, ...descending(9)]))];
+      },
+    },
+  ],
+  SC: [singleDigit(9, "XXX.XXX.XXX", mod11)],
+  SE: [singleDigit(9, "XXXXXXXX-X", mod11Complement)],
+  SP: [
+    {
+      length: 12,
+      layout: "XXX.XXX.XXX.XXX",
+      complete: (digits) => {
+        const firstDigit = weightedSum(digits, [1, 3, 4, 5, 6, 7, 8, 10]) % 11 % 10;
+        const withFirst = [...digits.slice(0, 8), firstDigit, ...digits.slice(9, 11)];
+        const secondDigit = weightedSum(withFirst, [3, 2, ...descending(10)]) % 11 % 10;
+        return [...withFirst, secondDigit];
+      },
+    },
+    {
+      length: 12,
+      letter: "P",
+      layout: "P-XXXXXXXX.X/XXX",
+      complete: (digits) => {
+        const digit = weightedSum(digits, [1, 3, 4, 5, 6, 7, 8, 10]) % 11 % 10;
+        return [...digits.slice(0, 8), digit, ...digits.slice(9)];
+      },
+    },
+  ],
+  TO: [
+    singleDigit(9, "XXXXXXXXX", mod11),
+    {
+      length: 11,
+      layout: "XX.XX.XXXXXX-X",
+      pattern: /^\d{2}(01|02|03|99)/,
+      complete: (digits) => {
+        const base = [...digits.slice(0, 2), ...digits.slice(4, 10)];
+        return [...digits.slice(0, 10), mod11(weightedSum(base, descending(9)))];
+      },
+    },
+  ],
+};
+
+export { STATES, StateVariant };
@@ -0,0 +1,56 @@
+import { MaskOptions } from "../types";
+
+/**
+ * Oculta parte de um documento, mantendo visíveis apenas os intervalos informados.
+ * 
+ * Se o documento não tiver o comprimento esperado pelo layout, todos os caracteres são ocultados,
+ * para que nenhuma parte de um valor inesperado seja exibida.
+ * 
+ * @param value - O documento sem formatação.
+ * @param layout - O layout do documento formatado, em que cada `X` representa um caractere (ex: `XXX.XXX.XXX-XX`).
+ * @param presets - Os intervalos visíveis de cada padrão.
+ * @param options - As opções de ocultação.
+ * 
+ * @returns {string} O documento com os caracteres ocultos substituídos pelo `placeholder`.
+ * 
+ * @example
+ * // Retorna "***.379.955-**"
+ * maskDocument("29537995593", "XXX.XXX.XXX-XX", { government: [[3, 9]], full: [] });
+ */
+function maskDocument(
+  value: string,
+  layout: string,
+  presets: Record<NonNullable<MaskOptions["preset"]>, [number, number][]>,
+  options?: MaskOptions
+): string {
+  const placeholder = options?.placeholder ?? "*";
+  const length = layout.replace(/[^X]/g, "").length;
+
+  if (value.length !== length) return placeholder.repeat(value.length);
+
+  const visible = options?.visible ?? presets[options?.preset ?? "government"];
+  const masked = Array.from(value, (character, index) =>
+    visible.some(([start, end]) => index >= start && index < end) ? character : placeholder
+  );
+
+  return options?.formatted === false ? masked.join("") : applyLayout(masked, layout);
+}
+
+/**
+ * Aplica um layout de formatação a uma sequência de caracteres.
+ * 
+ * @param characters - Os caracteres do documento, sem formatação.
+ * @param layout - O layout, em que cada `X` é substituído pelo próximo caractere.
+ * 
+ * @returns {string} O documento formatado.
+ * 
+ * @example
+ * // Retorna "***.379.955-**"
+ * applyLayout(["*", "*", "*", "3", "7", "9", "9", "5", "5", "*", "*"], "XXX.XXX.XXX-XX");
+ */
+function applyLayout(characters: string[], layout: string): string {
+  let index = 0;
+  return layout.replace(/X/g, () => characters[index++]);
+}
+
+export { maskDocument };
@@ -0,0 +1,98 @@
+import { LocaleMessages } from "../types";
+
+/**
+ * Mensagens de erro em inglês.
+ */
+const en: LocaleMessages = {
+  messages: {
+    "string.empty": "{{#label}} is not allowed to be empty",
+    "any.required": "{{#label}} is required",
+    "string.base": "{{#label}} must be a string",
+    "document.null": "{{#label}} must not be null",
+    "document.cpf.invalidLength": "CPF must contain 11 digits",
+    "document.cpf.invalidCharacter": "CPF contains invalid characters",
+    "document.cpf.repeatedDigits": "CPF cannot be a sequence of repeated digits",
+    "document.cpf.blocklisted": "CPF not allowed",
+    "document.cpf.firstCheckDigit": "Invalid CPF: first check digit does not match",
+    "document.cpf.secondCheckDigit": "Invalid CPF: second check digit does not match",
+    "document.cpf.masked": "CPF must not be formatted",
+    "document.cpf.unmasked": "CPF must be in the format XXX.XXX.XXX-XX",
+    "document.cpf.invalidFormat": "CPF must be unformatted or in the format XXX.XXX.XXX-XX",
+    "document.cnpj.invalidLength": "CNPJ must contain 14 characters",
+    "document.cnpj.invalidCharacter": "CNPJ contains invalid characters",
+    "document.cnpj.repeatedDigits": "CNPJ cannot be a sequence of repeated digits",
+    "document.cnpj.blocklisted": "CNPJ not allowed",
+    "document.cnpj.firstCheckDigit": "Invalid CNPJ: first check digit does not match",
+    "document.cnpj.secondCheckDigit": "Invalid CNPJ: second check digit does not match",
+    "document.cnpj.masked": "CNPJ must not be formatted",
+    "document.cnpj.unmasked": "CNPJ must be in the format XX.XXX.XXX/XXXX-XX",
+    "document.cnpj.invalidFormat": "CNPJ must be unformatted or in the format XX.XXX.XXX/XXXX-XX",
+    "document.cnpj.lowercase": "CNPJ must contain only uppercase letters",
+    "document.pis.invalidLength": "PIS must contain 11 digits",
+    "document.pis.invalidCharacter": "PIS contains invalid characters",
+    "document.pis.repeatedDigits": "PIS cannot be a sequence of repeated digits",
+    "document.pis.firstCheckDigit": "Invalid PIS: check digit does not match",
+    "document.pis.masked": "PIS must not be formatted",
+    "document.pis.unmasked": "PIS must be in the format XXX.XXXXX.XX-X",
+    "document.tituloEleitor.invalidLength": "Voter ID must contain 12 digits",
+    "document.tituloEleitor.invalidCharacter": "Voter ID contains invalid characters",
+    "document.tituloEleitor.invalidState": "Voter ID has an invalid state code",
+    "document.tituloEleitor.repeatedDigits": "Voter ID cannot be a sequence of repeated digits",
+    "document.tituloEleitor.firstCheckDigit": "Invalid voter ID: first check digit does not match",
+    "document.tituloEleitor.secondCheckDigit": "Invalid voter ID: second check digit does not match",
+    "document.tituloEleitor.masked": "Voter ID must not be formatted",
+    "document.tituloEleitor.unmasked": "Voter ID must be in the format XXXX XXXX XXXX",
+    "document.cnh.invalidLength": "CNH must contain 11 digits",
+    "document.cnh.invalidCharacter": "CNH contains invalid characters",
+    "document.cnh.repeatedDigits": "CNH cannot be a sequence of repeated digits",
+    "document.cnh.firstCheckDigit": "Invalid CNH: first check digit does not match",
+    "document.cnh.secondCheckDigit": "Invalid CNH: second check digit does not match",
+    "document.cnh.masked": "CNH must not be formatted",
+    "document.cnh.unmasked": "CNH must be in the format XXXXXXXXX-XX",
+    "document.renavam.invalidLength": "RENAVAM must contain 11 digits",
+    "document.renavam.invalidCharacter": "RENAVAM contains invalid characters",
+    "document.renavam.repeatedDigits": "RENAVAM cannot be a sequence of repeated digits",
+    "document.renavam.firstCheckDigit": "Invalid RENAVAM: check digit does not match",
+    "document.renavam.masked": "RENAVAM must not be formatted",
+    "document.renavam.unmasked": "RENAVAM must be in the format XXXXXXXXXX-X",
+    "document.cns.invalidLength": "CNS must contain 15 digits",
+    "document.cns.invalidCharacter": "CNS contains invalid characters",
+    "document.cns.invalidPrefix": "CNS must start with 1, 2, 7, 8 or 9",
+    "document.cns.repeatedDigits": "CNS cannot be a sequence of repeated digits",
+    "document.cns.firstCheckDigit": "Invalid CNS: check digit does not match",
+    "document.cns.masked": "CNS must not be formatted",
+    "document.cns.unmasked": "CNS must be in the format XXX XXXX XXXX XXXX",
+    "document.inscricaoEstadual.invalidState": "Invalid state for the state registration",
+    "document.inscricaoEstadual.invalid": "Invalid state registration for {{#uf}}",
+    "document.inscricaoEstadual.exempt": "State registration cannot be ISENTO",
+    "document.inscricaoEstadual.masked": "State registration must not be formatted",
+    "document.inscricaoEstadual.unmasked": "State registration must be formatted",
+    "document.inscricaoEstadual.lowercase": "State registration must contain only uppercase letters",
+    "document.pixKey.invalid": "Invalid Pix key",
+    "document.pixKey.type": "Pix key of type {{#type}} is not allowed",
+    "document.pixKey.normalized": "Pix key must be in normalized form",
+    "document.cpfOrCnpj.invalidLength": "CPF or CNPJ must contain 11 or 14 characters",
+    "document.cpfOrCnpj.invalidCharacter": "{{#document}} contains invalid characters",
+    "document.cpfOrCnpj.repeatedDigits": "{{#document}} cannot be a sequence of repeated digits",
+    "document.cpfOrCnpj.blocklisted": "{{#document}} not allowed",
+    "document.cpfOrCnpj.firstCheckDigit": "Invalid {{#document}}: first check digit does not match",
+    "document.cpfOrCnpj.secondCheckDigit": "Invalid {{#document}}: second check digit does not match",
+    "document.cpfOrCnpj.masked": "{{#document}} must not be formatted",
+    "document.cpfOrCnpj.unmasked": "{{#document}} must be formatted",
+    "document.cpfOrCnpj.lowercase": "{{#document}} must contain only uppercase letters",
+    "document.cpfOrCnpj.invalidFormat": "{{#document}} must be unformatted or match the exact mask",
+  },
+  kinds: {
+    cpf: "CPF",
+    "cnpj-numeric": "CNPJ",
+    "cnpj-alfanumeric": "CNPJ",
+    pis: "PIS",
+    "titulo-eleitor": "Voter ID",
+    cnh: "CNH",
+    renavam: "RENAVAM",
+    cns: "CNS",
+    unknown: "CPF or CNPJ",
+  },
+};
+
+export default en;
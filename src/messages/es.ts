@@ -0,0 +1,98 @@
+import { LocaleMessages } from "../types";
+
+/**
+ * Mensagens de erro em espanhol.
+ */
+const es: LocaleMessages = {
+  messages: {
+    "string.empty": "{{#label}} no puede estar vacío",
+    "any.required": "{{#label}} es obligatorio",
+    "string.base": "{{#label}} debe ser un texto",
+    "document.null": "{{#label}} no puede ser nulo",
+    "document.cpf.invalidLength": "El CPF debe contener 11 dígitos",
+    "document.cpf.invalidCharacter": "El CPF contiene caracteres inválidos",
+    "document.cpf.repeatedDigits": "El CPF no puede ser una secuencia de dígitos repetidos",
+    "document.cpf.blocklisted": "CPF no permitido",
+    "document.cpf.firstCheckDigit": "CPF inválido: el primer dígito verificador no coincide",
+    "document.cpf.secondCheckDigit": "CPF inválido: el segundo dígito verificador no coincide",
+    "document.cpf.masked": "El CPF no debe tener formato",
+    "document.cpf.unmasked": "El CPF debe estar en el formato XXX.XXX.XXX-XX",
+    "document.cpf.invalidFormat": "El CPF debe estar sin formato o en el formato XXX.XXX.XXX-XX",
+    "document.cnpj.invalidLength": "El CNPJ debe contener 14 caracteres",
+    "document.cnpj.invalidCharacter": "El CNPJ contiene caracteres inválidos",
+    "document.cnpj.repeatedDigits": "El CNPJ no puede ser una secuencia de dígitos repetidos",
+    "document.cnpj.blocklisted": "CNPJ no permitido",
+    "document.cnpj.firstCheckDigit": "CNPJ inválido: el primer dígito verificador no coincide",
+    "document.cnpj.secondCheckDigit": "CNPJ inválido: el segundo dígito verificador no coincide",
+    "document.cnpj.masked": "El CNPJ no debe tener formato",
+    "document.cnpj.unmasked": "El CNPJ debe estar en el formato XX.XXX.XXX/XXXX-XX",
+    "document.cnpj.invalidFormat": "El CNPJ debe estar sin formato o en el formato XX.XXX.XXX/XXXX-XX",
+    "document.cnpj.lowercase": "El CNPJ debe contener solo letras mayúsculas",
+    "document.pis.invalidLength": "El PIS debe contener 11 dígitos",
+    "document.pis.invalidCharacter": "El PIS contiene caracteres inválidos",
+    "document.pis.repeatedDigits": "El PIS no puede ser una secuencia de dígitos repetidos",
+    "document.pis.firstCheckDigit": "PIS inválido: el dígito verificador no coincide",
+    "document.pis.masked": "El PIS no debe tener formato",
+    "document.pis.unmasked": "El PIS debe estar en el formato XXX.XXXXX.XX-X",
+    "document.tituloEleitor.invalidLength": "El título electoral debe contener 12 dígitos",
+    "document.tituloEleitor.invalidCharacter": "El título electoral contiene caracteres inválidos",
+    "document.tituloEleitor.invalidState": "El título electoral tiene un código de estado inválido",
+    "document.tituloEleitor.repeatedDigits": "El título electoral no puede ser una secuencia de dígitos repetidos",
+    "document.tituloEleitor.firstCheckDigit": "Título electoral inválido: el primer dígito verificador no coincide",
+    "document.tituloEleitor.secondCheckDigit": "Título electoral inválido: el segundo dígito verificador no coincide",
+    "document.tituloEleitor.masked": "El título electoral no debe tener formato",
+    "document.tituloEleitor.unmasked": "El título electoral debe estar en el formato XXXX XXXX XXXX",
+    "document.cnh.invalidLength": "La CNH debe contener 11 dígitos",
+    "document.cnh.invalidCharacter": "La CNH contiene caracteres inválidos",
+    "document.cnh.repeatedDigits": "La CNH no puede ser una secuencia de dígitos repetidos",
+    "document.cnh.firstCheckDigit": "CNH inválida: el primer dígito verificador no coincide",
+    "document.cnh.secondCheckDigit": "CNH inválida: el segundo dígito verificador no coincide",
+    "document.cnh.masked": "La CNH no debe tener formato",
+    "document.cnh.unmasked": "La CNH debe estar en el formato XXXXXXXXX-XX",
+    "document.renavam.invalidLength": "El RENAVAM debe contener 11 dígitos",
+    "document.renavam.invalidCharacter": "El RENAVAM contiene caracteres inválidos",
+    "document.renavam.repeatedDigits": "El RENAVAM no puede ser una secuencia de dígitos repetidos",
+    "document.renavam.firstCheckDigit": "RENAVAM inválido: el dígito verificador no coincide",
+    "document.renavam.masked": "El RENAVAM no debe tener formato",
+    "document.renavam.unmasked": "El RENAVAM debe estar en el formato XXXXXXXXXX-X",
+    "document.cns.invalidLength": "El CNS debe contener 15 dígitos",
+    "document.cns.invalidCharacter": "El CNS contiene caracteres inválidos",
+    "document.cns.invalidPrefix": "El CNS debe comenzar con 1, 2, 7, 8 o 9",
+    "document.cns.repeatedDigits": "El CNS no puede ser una secuencia de dígitos repetidos",
+    "document.cns.firstCheckDigit": "CNS inválido: el dígito verificador no coincide",
+    "document.cns.masked": "El CNS no debe tener formato",
+    "document.cns.unmasked": "El CNS debe estar en el formato XXX XXXX XXXX XXXX",
+    "document.inscricaoEstadual.invalidState": "Estado de la inscripción estatal inválido",
+    "document.inscricaoEstadual.invalid": "Inscripción estatal inválida para {{#uf}}",
+    "document.inscricaoEstadual.exempt": "La inscripción estatal no puede ser ISENTO",
+    "document.inscricaoEstadual.masked": "La inscripción estatal no debe tener formato",
+    "document.inscricaoEstadual.unmasked": "La inscripción estatal debe tener formato",
+    "document.inscricaoEstadual.lowercase": "La inscripción estatal debe contener solo letras mayúsculas",
+    "document.pixKey.invalid": "Clave Pix inválida",
+    "document.pixKey.type": "Clave Pix del tipo {{#type}} no permitida",
+    "document.pixKey.normalized": "La clave Pix debe estar en la forma normalizada",
+    "document.cpfOrCnpj.invalidLength": "El CPF o CNPJ debe contener 11 o 14 caracteres",
+    "document.cpfOrCnpj.invalidCharacter": "{{#document}} contiene caracteres inválidos",
+    "document.cpfOrCnpj.repeatedDigits": "{{#document}} no puede ser una secuencia de dígitos repetidos",
+    "document.cpfOrCnpj.blocklisted": "{{#document}} no permitido",
+    "document.cpfOrCnpj.firstCheckDigit": "{{#document}} inválido: el primer dígito verificador no coincide",
+    "document.cpfOrCnpj.secondCheckDigit": "{{#document}} inválido: el segundo dígito verificador no coincide",
+    "document.cpfOrCnpj.masked": "{{#document}} no debe tener formato",
+    "document.cpfOrCnpj.unmasked": "{{#document}} debe tener formato",
+    "document.cpfOrCnpj.lowercase": "{{#document}} debe contener solo letras mayúsculas",
+    "document.cpfOrCnpj.invalidFormat": "{{#document}} debe estar sin formato o con la máscara exacta",
+  },
+  kinds: {
+    cpf: "CPF",
+    "cnpj-numeric": "CNPJ",
+    "cnpj-alfanumeric": "CNPJ",
+    pis: "PIS",
+    "titulo-eleitor": "Título electoral",
+    cnh: "CNH",
+    renavam: "RENAVAM",
+    cns: "CNS",
+    unknown: "CPF o CNPJ",
+  },
+};
+
+export default es;
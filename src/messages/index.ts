@@ -0,0 +1,54 @@
+import ptBR from "./pt-BR";
+import en from "./en";
+import es from "./es";
+import { DocumentKind, LocaleMessages, MessageLocale } from "../types";
+
+/**
+ * Mensagens de erro de cada idioma disponível.
+ */
+export const locales: Record<MessageLocale, LocaleMessages> = {
+  "pt-BR": ptBR,
+  en,
+  es,
+};
+
+/**
+ * Mensagens de erro das regras de validação em português, indexadas pelo código do erro.
+ * 
+ * São utilizadas por padrão pela extensão Joi e pelos adaptadores para Zod, Yup e class-validator. Os
+ * trechos no formato `{{#chave}}` são substituídos pelo contexto do erro.
+ */
+export const messages: Record<string, string> = ptBR.messages;
+
+/**
+ * Retorna a mensagem de um código de erro, substituindo os trechos `{{#chave}}` pelos valores do contexto.
+ * 
+ * @param code - O código do erro (ex: `document.cpf.firstCheckDigit`).
+ * @param context - Os valores a serem substituídos na mensagem.
+ * 
+ * @returns {string} A mensagem do erro, ou o próprio código se ele não tiver mensagem.
+ * 
+ * @example
+ * // Retorna "CNPJ não permitido"
+ * formatMessage("document.cpfOrCnpj.blocklisted", { document: "CNPJ" });
+ */
+export function formatMessage(code: string, context: Record<string, unknown> = {}): string {
+  const message = messages[code] ?? code;
+  return message.replace(/{{#(\w+)}}/g, (_, key: string) => String(context[key] ?? ""));
+}
+
+/**
+ * Retorna o nome do documento a ser exibido nas mensagens de erro.
+ * 
+ * @param kind - O tipo de documento identificado.
+ * @param locale - O idioma do nome. O padrão é `'pt-BR'`.
+ * 
+ * @returns {string} O nome do documento (ex: "CPF" ou "CNPJ"), ou "CPF ou CNPJ", quando o tipo não foi identificado.
+ * 
+ * @example
+ * describeKind("cnpj-alfanumeric"); // "CNPJ"
+ * describeKind(null, "en"); // "CPF or CNPJ"
+ */
+export function describeKind(kind: DocumentKind | null, locale: MessageLocale = "pt-BR"): string {
+  return locales[locale].kinds[kind ?? "unknown"];
+}
@@ -0,0 +1,98 @@
+import { LocaleMessages } from "../types";
+
+/**
+ * Mensagens de erro em português do Brasil.
+ */
+const ptBR: LocaleMessages = {
+  messages: {
+    "string.empty": "{{#label}} não pode ser vazio",
+    "any.required": "{{#label}} é obrigatório",
+    "string.base": "{{#label}} deve ser um texto",
+    "document.null": "{{#label}} não pode ser nulo",
+    "document.cpf.invalidLength": "CPF deve conter 11 dígitos",
+    "document.cpf.invalidCharacter": "CPF contém caracteres inválidos",
+    "document.cpf.repeatedDigits": "CPF não pode ser uma sequência de dígitos repetidos",
+    "document.cpf.blocklisted": "CPF não permitido",
+    "document.cpf.firstCheckDigit": "CPF inválido: primeiro dígito verificador não confere",
+    "document.cpf.secondCheckDigit": "CPF inválido: segundo dígito verificador não confere",
+    "document.cpf.masked": "CPF não deve conter formatação",
+    "document.cpf.unmasked": "CPF deve estar no formato XXX.XXX.XXX-XX",
+    "document.cpf.invalidFormat": "CPF deve estar sem formatação ou no formato XXX.XXX.XXX-XX",
+    "document.cnpj.invalidLength": "CNPJ deve conter 14 caracteres",
+    "document.cnpj.invalidCharacter": "CNPJ contém caracteres inválidos",
+    "document.cnpj.repeatedDigits": "CNPJ não pode ser uma sequência de dígitos repetidos",
+    "document.cnpj.blocklisted": "CNPJ não permitido",
+    "document.cnpj.firstCheckDigit": "CNPJ inválido: primeiro dígito verificador não confere",
+    "document.cnpj.secondCheckDigit": "CNPJ inválido: segundo dígito verificador não confere",
+    "document.cnpj.masked": "CNPJ não deve conter formatação",
+    "document.cnpj.unmasked": "CNPJ deve estar no formato XX.XXX.XXX/XXXX-XX",
+    "document.cnpj.invalidFormat": "CNPJ deve estar sem formatação ou no formato XX.XXX.XXX/XXXX-XX",
+    "document.cnpj.lowercase": "CNPJ deve conter apenas letras maiúsculas",
+    "document.pis.invalidLength": "PIS deve conter 11 dígitos",
+    "document.pis.invalidCharacter": "PIS contém caracteres inválidos",
+    "document.pis.repeatedDigits": "PIS não pode ser uma sequência de dígitos repetidos",
+    "document.pis.firstCheckDigit": "PIS inválido: dígito verificador não confere",
+    "document.pis.masked": "PIS não deve conter formatação",
+    "document.pis.unmasked": "PIS deve estar no formato XXX.XXXXX.XX-X",
+    "document.tituloEleitor.invalidLength": "Título de eleitor deve conter 12 dígitos",
+    "document.tituloEleitor.invalidCharacter": "Título de eleitor contém caracteres inválidos",
+    "document.tituloEleitor.invalidState": "Título de eleitor com código de UF inválido",
+    "document.tituloEleitor.repeatedDigits": "Título de eleitor não pode ser uma sequência de dígitos repetidos",
+    "document.tituloEleitor.firstCheckDigit": "Título de eleitor inválido: primeiro dígito verificador não confere",
+    "document.tituloEleitor.secondCheckDigit": "Título de eleitor inválido: segundo dígito verificador não confere",
+    "document.tituloEleitor.masked": "Título de eleitor não deve conter formatação",
+    "document.tituloEleitor.unmasked": "Título de eleitor deve estar no formato XXXX XXXX XXXX",
+    "document.cnh.invalidLength": "CNH deve conter 11 dígitos",
+    "document.cnh.invalidCharacter": "CNH contém caracteres inválidos",
+    "document.cnh.repeatedDigits": "CNH não pode ser uma sequência de dígitos repetidos",
+    "document.cnh.firstCheckDigit": "CNH inválida: primeiro dígito verificador não confere",
+    "document.cnh.secondCheckDigit": "CNH inválida: segundo dígito verificador não confere",
+    "document.cnh.masked": "CNH não deve conter formatação",
+    "document.cnh.unmasked": "CNH deve estar no formato XXXXXXXXX-XX",
+    "document.renavam.invalidLength": "RENAVAM deve conter 11 dígitos",
+    "document.renavam.invalidCharacter": "RENAVAM contém caracteres inválidos",
+    "document.renavam.repeatedDigits": "RENAVAM não pode ser uma sequência de dígitos repetidos",
+    "document.renavam.firstCheckDigit": "RENAVAM inválido: dígito verificador não confere",
+    "document.renavam.masked": "RENAVAM não deve conter formatação",
+    "document.renavam.unmasked": "RENAVAM deve estar no formato XXXXXXXXXX-X",
+    "document.cns.invalidLength": "CNS deve conter 15 dígitos",
+    "document.cns.invalidCharacter": "CNS contém caracteres inválidos",
+    "document.cns.invalidPrefix": "CNS deve começar com 1, 2, 7, 8 ou 9",
+    "document.cns.repeatedDigits": "CNS não pode ser uma sequência de dígitos repetidos",
+    "document.cns.firstCheckDigit": "CNS inválido: dígito verificador não confere",
+    "document.cns.masked": "CNS não deve conter formatação",
+    "document.cns.unmasked": "CNS deve estar no formato XXX XXXX XXXX XXXX",
+    "document.inscricaoEstadual.invalidState": "UF da inscrição estadual inválida",
+    "document.inscricaoEstadual.invalid": "Inscrição estadual inválida para {{#uf}}",
+    "document.inscricaoEstadual.exempt": "Inscrição estadual não pode ser ISENTO",
+    "document.inscricaoEstadual.masked": "Inscrição estadual não deve conter formatação",
+    "document.inscricaoEstadual.unmasked": "Inscrição estadual deve estar formatada",
+    "document.inscricaoEstadual.lowercase": "Inscrição estadual deve conter apenas letras maiúsculas",
+    "document.pixKey.invalid": "Chave Pix inválida",
+    "document.pixKey.type": "Chave Pix do tipo {{#type}} não permitida",
+    "document.pixKey.normalized": "Chave Pix deve estar na forma normalizada",
+    "document.cpfOrCnpj.invalidLength": "CPF ou CNPJ deve conter 11 ou 14 caracteres",
+    "document.cpfOrCnpj.invalidCharacter": "{{#document}} contém caracteres inválidos",
+    "document.cpfOrCnpj.repeatedDigits": "{{#document}} não pode ser uma sequência de dígitos repetidos",
+    "document.cpfOrCnpj.blocklisted": "{{#document}} não permitido",
+    "document.cpfOrCnpj.firstCheckDigit": "{{#document}} inválido: primeiro dígito verificador não confere",
+    "document.cpfOrCnpj.secondCheckDigit": "{{#document}} inválido: segundo dígito verificador não confere",
+    "document.cpfOrCnpj.masked": "{{#document}} não deve conter formatação",
+    "document.cpfOrCnpj.unmasked": "{{#document}} deve estar formatado",
+    "document.cpfOrCnpj.lowercase": "{{#document}} deve conter apenas letras maiúsculas",
+    "document.cpfOrCnpj.invalidFormat": "{{#document}} deve estar sem formatação ou com a máscara exata",
+  },
+  kinds: {
+    cpf: "CPF",
+    "cnpj-numeric": "CNPJ",
+    "cnpj-alfanumeric": "CNPJ",
+    pis: "PIS",
+    "titulo-eleitor": "Título de eleitor",
+    cnh: "CNH",
+    renavam: "RENAVAM",
+    cns: "CNS",
+    unknown: "CPF ou CNPJ",
+  },
+};
+
+export default ptBR;
@@ -0,0 +1,106 @@
+import { CNPJ_LAYOUT, CPF_LAYOUT } from "../constants";
+import { PartialFormatResult } from "../types";
+
+type PartialKind = PartialFormatResult["kind"] & string;
+
+interface PartialLayout {
+  layout: string;
+  allows(character: string, position: number): boolean;
+}
+
+const LAYOUTS: Record<PartialKind, PartialLayout> = {
+  cpf: {
+    layout: CPF_LAYOUT,
+    allows: (character) => /\d/.test(character),
+  },
+  cnpj: {
+    layout: CNPJ_LAYOUT,
+    allows: (character, position) => (position < 12 ? /[A-Z0-9]/ : /\d/).test(character),
+  },
+};
+
+/**
+ * Formata um documento parcialmente digitado, aplicando a máscara à medida que os caracteres são digitados.
+ * 
+ * A pontuação digitada é descartada e reaplicada de acordo com a máscara, e as letras são convertidas para
+ * maiúsculas. Quando mais de um tipo de documento é aceito, a máscara de CPF é aplicada enquanto o valor
+ * ainda puder ser um CPF; caso contrário, é aplicada a máscara de CNPJ.
+ * 
+ * @param input - O valor digitado.
+ * @param caret - A posição do cursor no valor digitado.
+ * @param validators - As funções de validação de cada tipo de documento aceito.
+ * 
+ * @returns {PartialFormatResult} O valor formatado, a nova posição do cursor e os tipos de documento possíveis.
+ * 
+ * @example
+ * // Retorna { value: "123.4", caret: 5, kind: "cpf", possible: { cpf: true, cnpj: true }, complete: false }
+ * formatPartialDocument("1234", 4, { cpf: cpf.isValid, cnpj: cnpj.isValid });
+ */
+function formatPartialDocument(
+  input: string,
+  caret: number,
+  validators: Partial<Record<PartialKind, (value: string) => boolean>>
+): PartialFormatResult {
+  const characters = Array.from(input.replace(/[^a-zA-Z0-9]/g, "").toUpperCase());
+  const typedBeforeCaret = input.slice(0, caret).replace(/[^a-zA-Z0-9]/g, "").length;
+
+  const possible = { cpf: false, cnpj: false };
+  let complete = false;
+
+  for (const kind of Object.keys(validators) as PartialKind[]) {
+    const { layout, allows } = LAYOUTS[kind];
+    const length = layout.replace(/[^X]/g, "").length;
+    const value = characters.join("");
+
+    possible[kind] =
+      characters.length <= length &&
+      characters.every(allows) &&
+      (characters.length < length || validators[kind]!(value));
+    complete = complete || (possible[kind] && characters.length === length);
+  }
+
+  const kind = possible.cpf ? "cpf" : possible.cnpj ? "cnpj" : null;
+  if (!kind) {
+    return { value: characters.join(""), caret: typedBeforeCaret, kind, possible, complete };
+  }
+
+  const { value, positions } = applyPartialLayout(characters, LAYOUTS[kind].layout);
+  return {
+    value,
+    caret: typedBeforeCaret === 0 ? 0 : positions[typedBeforeCaret - 1] + 1,
+    kind,
+    possible,
+    complete,
+  };
+}
+
+/**
+ * Aplica um layout de formatação aos caracteres já digitados, sem incluir a pontuação após o último caractere.
+ * 
+ * @param characters - Os caracteres digitados, sem formatação.
+ * @param layout - O layout, em que cada `X` é substituído pelo próximo caractere.
+ * 
+ * @returns O valor formatado e a posição de cada caractere digitado no valor formatado.
+ * 
+ * @example
+ * // Retorna { value: "12.AB3", positions: [0, 1, 3, 4, 5] }
+ * applyPartialLayout(["1", "2", "A", "B", "3"], "XX.XXX.XXX/XXXX-XX");
+ */
+function applyPartialLayout(characters: string[], layout: string): { value: string; positions: number[] } {
+  let value = "";
+  const positions: number[] = [];
+
+  for (const symbol of layout) {
+    if (positions.length === characters.length) break;
+    if (symbol === "X") {
+      positions.push(value.length);
+      value += characters[positions.length - 1];
+    } else {
+      value += symbol;
+    }
+  }
+
+  return { value, positions };
+}
+
+export { formatPartialDocument };
@@ -0,0 +1,170 @@
+import { MAX_GENERATE_ATTEMPTS, PIS_LENGTH } from "../constants";
+import { resolveRandom } from "../random";
+import { RandomOptions, RandomSource, ValidationResult } from "../types";
+
+interface PISOptions extends RandomOptions {
+  formatted?: boolean;
+}
+
+/**
+ * Pesos utilizados no cálculo do dígito verificador do PIS/PASEP/NIT.
+ */
+const WEIGHTS = [3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Gera um número de PIS/PASEP/NIT.
+ * 
+ * Esta função gera um PIS válido. O PIS gerado pode ser retornado com ou sem a formatação.
+ * 
+ * @param {PISOptions} [options] - Opções para a geração do PIS.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna o PIS formatado (XXX.XXXXX.XX-X).
+ * Caso contrário, retorna o PIS sem formatação (apenas números).
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
+ * 
+ * @returns {string} O PIS gerado, podendo ser formatado ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a fonte de números aleatórios gerar apenas números inválidos (ex: uma função que
+ * retorna sempre o mesmo valor), após um número limitado de tentativas.
+ * 
+ * @example
+ * // Retorna um PIS sem formatação, como '12056412545'
+ * generate();
+ * 
+ * @example
+ * // Retorna um PIS formatado, como '120.56412.54-5'
+ * generate({ formatted: true });
+ */
+export function generate(options?: PISOptions): string {
+  const random = resolveRandom(options);
+
+  for (let attempt = 0; attempt < MAX_GENERATE_ATTEMPTS; attempt++) {
+    const basePIS = generateBasePIS(random);
+    const pis = [...basePIS, calculateCheckDigit(basePIS)].join("");
+    if (isValid(pis)) return options?.formatted ? format(pis) : pis;
+  }
+
+  throw new Error("Não foi possível gerar um PIS válido com a fonte de números aleatórios informada");
+}
+
+/**
+ * Valida um PIS/PASEP/NIT.
+ * 
+ * A função limpa a string do PIS, verifica o formato e calcula o dígito verificador
+ * para garantir que o PIS fornecido seja válido.
+ * 
+ * @param pis - O PIS a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se o PIS for válido e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true se o PIS for válido
+ * isValid("120.56412.54-5");
+ * 
+ * // Retorna false se o PIS for inválido
+ * isValid("120.56412.54-7");
+ */
+export function isValid(pis: string): boolean {
+  return validate(pis).valid;
+}
+
+/**
+ * Valida um PIS/PASEP/NIT e retorna o resultado detalhado da validação.
+ * 
+ * O PIS possui apenas um dígito verificador: quando ele não confere, o motivo é `firstCheckDigit`.
+ * 
+ * @param pis - O PIS a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ValidationResult} O resultado da validação.
+ * 
+ * @example
+ * // Retorna { valid: false, value: "12056412547", kind: "pis", reason: "firstCheckDigit", expectedCheckDigits: "5" }
+ * validate("120.56412.54-7");
+ */
+export function validate(pis: string): ValidationResult {
+  const cleanedPIS = pis.replace(/\D/g, "");
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedPIS,
+    kind: "pis",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (cleanedPIS.length !== PIS_LENGTH) {
+    result.reason = /[a-zA-Z]/.test(pis) ? "invalidCharacter" : "invalidLength";
+    return result;
+  }
+
+  const digits = cleanedPIS.split("").map(Number);
+  const checkDigit = calculateCheckDigit(digits.slice(0, 10));
+  result.expectedCheckDigits = `${checkDigit}`;
+
+  if (/^(\d)\1+$/.test(cleanedPIS)) {
+    result.reason = "repeatedDigits";
+  } else if (checkDigit !== digits[10]) {
+    result.reason = "firstCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Gera uma base aleatória de PIS com 10 dígitos numéricos.
+ * 
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {number[]} Um array de 10 números inteiros, representando a base de um PIS.
+ * 
+ * @example
+ * // Exemplo de retorno: [1, 2, 0, 5, 6, 4, 1, 2, 5, 4]
+ * generateBasePIS(Math.random);
+ */
+function generateBasePIS(random: RandomSource): number[] {
+  return Array.from({ length: 10 }, () => Math.floor(random() * 10));
+}
+
+/**
+ * Calcula o dígito verificador de um PIS/PASEP/NIT.
+ * 
+ * A função multiplica cada dígito da base pelos pesos 3, 2, 9, 8, 7, 6, 5, 4, 3 e 2 e calcula o módulo 11
+ * da soma obtida. O dígito verificador é 11 menos o resto; se o resultado for 10 ou 11, o dígito será 0.
+ * 
+ * @param numbers - Um array com os 10 dígitos da base do PIS.
+ * 
+ * @returns {number} O dígito verificador calculado.
+ * 
+ * @example
+ * // Retorna 5
+ * calculateCheckDigit([1, 2, 0, 5, 6, 4, 1, 2, 5, 4]);
+ */
+function calculateCheckDigit(numbers: number[]): number {
+  const sum = numbers.reduce((acc, num, index) => acc + num * WEIGHTS[index], 0);
+  const digit = 11 - (sum % 11);
+  return digit >= 10 ? 0 : digit;
+}
+
+/**
+ * Formata um PIS/PASEP/NIT aplicando o formato padrão: XXX.XXXXX.XX-X.
+ * 
+ * @param pis - O PIS a ser formatado, que deve estar no formato numérico (sem pontuação).
+ * 
+ * @returns {string} O PIS formatado no padrão XXX.XXXXX.XX-X.
+ * 
+ * @example
+ * // Retorna "120.56412.54-5"
+ * format("12056412545");
+ */
+function format(pis: string): string {
+  return pis.replace(/(\d{3})(\d{5})(\d{2})(\d)/, "$1.$2.$3-$4");
+}
+
+export default {
+  generate,
+  isValid,
+  validate,
+  format,
+};
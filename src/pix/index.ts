@@ -0,0 +1,115 @@
+import cpf from "../cpf";
+import cnpj from "../cnpj";
+import document from "../document";
+import { PixKeyType } from "../types";
+
+interface PixKeyOptions {
+  types?: PixKeyType[];
+}
+
+const EMAIL_MAX_LENGTH = 77;
+
+const EMAIL_PATTERN =
+  /^[a-z0-9.!#$&'*+/=?^_`{|}~-]+@[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+const PHONE_PATTERN = /^\+55[1-9]{2}(9\d{8}|[2-8]\d{7})$/;
+
+const EVP_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Identifica o tipo de uma chave Pix a partir do seu formato.
+ * 
+ * Chaves iniciadas por `+` são telefones, chaves com `@` são e-mails e chaves no formato UUID são chaves
+ * aleatórias (EVP). As demais são identificadas como CPF ou CNPJ pelo comprimento, como em `document.detect`.
+ * A identificação não verifica se a chave é válida: para isso, utilize `isValid`.
+ * 
+ * @param key - A chave Pix, com ou sem formatação.
+ * 
+ * @returns {PixKeyType | null} O tipo da chave, ou `null` se não for possível identificá-lo.
+ * 
+ * @example
+ * detect("295.379.955-93"); // "cpf"
+ * detect("12.ABC.345/01DE-35"); // "cnpj"
+ * detect("Fulano@Exemplo.com"); // "email"
+ * detect("+55 (11) 91234-5678"); // "phone"
+ * detect("123e4567-e89b-42d3-a456-426614174000"); // "evp"
+ */
+function detect(key: string): PixKeyType | null {
+  const trimmed = key.trim();
+
+  if (trimmed.startsWith("+")) return "phone";
+  if (trimmed.includes("@")) return "email";
+  if (EVP_PATTERN.test(trimmed.toLowerCase())) return "evp";
+
+  const kind = document.detect(trimmed);
+  if (kind === "cpf") return "cpf";
+  if (kind === "cnpj-numeric" || kind === "cnpj-alfanumeric") return "cnpj";
+  return null;
+}
+
+/**
+ * Valida uma chave Pix.
+ * 
+ * O tipo da chave é identificado com `detect`. Chaves de CPF e CNPJ são validadas com `cpf.isValid` e
+ * `cnpj.isValid`; as demais, pelo formato aceito pelo DICT após a normalização.
+ * 
+ * @param key - A chave Pix, com ou sem formatação.
+ * @param {PixKeyOptions} [options] - Opções de validação.
+ * @param {PixKeyType[]} [options.types] - Os tipos de chave aceitos. Se não for especificado, todos os tipos são aceitos.
+ * 
+ * @returns {boolean} Retorna `true` se a chave for válida e de um dos tipos aceitos, e `false` caso contrário.
+ * 
+ * @example
+ * isValid("fulano@exemplo.com"); // true
+ * isValid("fulano@exemplo.com", { types: ["cpf", "cnpj"] }); // false
+ */
+function isValid(key: string, options?: PixKeyOptions): boolean {
+  const type = detect(key);
+  if (!type || (options?.types && !options.types.includes(type))) return false;
+  return normalize(key) !== null;
+}
+
+/**
+ * Converte uma chave Pix para a forma canônica utilizada no DICT.
+ * 
+ * CPF e CNPJ perdem a pontuação (as letras do CNPJ alfanumérico são convertidas para maiúsculas), e-mails
+ * e chaves aleatórias são convertidos para minúsculas e telefones perdem espaços, parênteses e hífens.
+ * 
+ * @param key - A chave Pix, com ou sem formatação.
+ * 
+ * @returns {string | null} A chave na forma canônica, ou `null` se a chave for inválida.
+ * 
+ * @example
+ * normalize("295.379.955-93"); // "29537995593"
+ * normalize(" Fulano@Exemplo.com "); // "fulano@exemplo.com"
+ * normalize("+55 (11) 91234-5678"); // "+5511912345678"
+ * normalize("123E4567-E89B-42D3-A456-426614174000"); // "123e4567-e89b-42d3-a456-426614174000"
+ */
+function normalize(key: string): string | null {
+  const trimmed = key.trim();
+
+  switch (detect(key)) {
+    case "cpf":
+      return cpf.isValid(trimmed) ? document.clean(trimmed) : null;
+    case "cnpj":
+      return cnpj.isValid(trimmed.toUpperCase()) ? document.clean(trimmed).toUpperCase() : null;
+    case "email": {
+      const email = trimmed.toLowerCase();
+      return email.length <= EMAIL_MAX_LENGTH && EMAIL_PATTERN.test(email) ? email : null;
+    }
+    case "phone": {
+      const phone = trimmed.replace(/[\s()-]/g, "");
+      return PHONE_PATTERN.test(phone) ? phone : null;
+    }
+    case "evp":
+      return trimmed.toLowerCase();
+    default:
+      return null;
+  }
+}
+
+export default {
+  detect,
+  isValid,
+  normalize,
+};
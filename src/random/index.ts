@@ -0,0 +1,82 @@
+import { randomBytes } from "crypto";
+import { RandomOptions, RandomSource } from "../types";
+
+/**
+ * Cria uma fonte de números aleatórios determinística a partir de uma semente.
+ * 
+ * A fonte criada utiliza o algoritmo Mulberry32. Duas fontes criadas com a mesma semente sempre
+ * retornam a mesma sequência de números, o que permite gerar documentos reproduzíveis.
+ * 
+ * @param seed - A semente, numérica ou textual.
+ * 
+ * @returns {RandomSource} Uma função que retorna números no intervalo [0, 1).
+ * 
+ * @example
+ * const random = createSeededRandom(42);
+ * cpf.generate({ random }); // Sempre o mesmo primeiro CPF para a semente 42
+ * cpf.generate({ random }); // Sempre o mesmo segundo CPF para a semente 42
+ */
+function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fonte de números aleatórios criptograficamente segura, baseada no módulo `crypto` do Node.js.
+ * 
+ * @returns {number} Um número no intervalo [0, 1).
+ * 
+ * @example
+ * cnpj.generate({ random: secureRandom });
+ */
+function secureRandom(): number {
+  return randomBytes(4).readUInt32BE(0) / 4294967296;
+}
+
+/**
+ * Define a fonte de números aleatórios a partir das opções de geração.
+ * 
+ * A prioridade é: `random`, `seed`, `secure` e, por fim, `Math.random`.
+ * 
+ * @param options - As opções de geração.
+ * 
+ * @returns {RandomSource} A fonte de números aleatórios a ser utilizada.
+ * 
+ * @example
+ * // Retorna uma fonte determinística para a semente 42
+ * resolveRandom({ seed: 42 });
+ */
+function resolveRandom(options?: RandomOptions): RandomSource {
+  if (options?.random) return options.random;
+  if (options?.seed !== undefined) return createSeededRandom(options.seed);
+  if (options?.secure) return secureRandom;
+  return Math.random;
+}
+
+/**
+ * Converte uma semente textual em um número inteiro de 32 bits (FNV-1a).
+ * 
+ * @param seed - A semente textual.
+ * 
+ * @returns {number} O número inteiro correspondente à semente.
+ * 
+ * @example
+ * hashSeed("fixtures");
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export { createSeededRandom, secureRandom, resolveRandom };
@@ -0,0 +1,170 @@
+import { MAX_GENERATE_ATTEMPTS, RENAVAM_LENGTH } from "../constants";
+import { resolveRandom } from "../random";
+import { RandomOptions, RandomSource, ValidationResult } from "../types";
+
+interface RENAVAMOptions extends RandomOptions {
+  formatted?: boolean;
+}
+
+/**
+ * Pesos utilizados no cálculo do dígito verificador do RENAVAM.
+ */
+const WEIGHTS = [3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Gera um código RENAVAM.
+ * 
+ * Esta função gera um RENAVAM válido. O RENAVAM gerado pode ser retornado com ou sem a formatação.
+ * 
+ * @param {RENAVAMOptions} [options] - Opções para a geração do RENAVAM.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna o RENAVAM formatado (XXXXXXXXXX-X).
+ * Caso contrário, retorna o RENAVAM sem formatação (apenas números).
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
+ * 
+ * @returns {string} O RENAVAM gerado, podendo ser formatado ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a fonte de números aleatórios gerar apenas números inválidos (ex: uma função que
+ * retorna sempre o mesmo valor), após um número limitado de tentativas.
+ * 
+ * @example
+ * // Retorna um RENAVAM sem formatação, como '00639884962'
+ * generate();
+ * 
+ * @example
+ * // Retorna um RENAVAM formatado, como '0063988496-2'
+ * generate({ formatted: true });
+ */
+export function generate(options?: RENAVAMOptions): string {
+  const random = resolveRandom(options);
+
+  for (let attempt = 0; attempt < MAX_GENERATE_ATTEMPTS; attempt++) {
+    const baseRENAVAM = generateBaseRENAVAM(random);
+    const renavam = [...baseRENAVAM, calculateCheckDigit(baseRENAVAM)].join("");
+    if (isValid(renavam)) return options?.formatted ? format(renavam) : renavam;
+  }
+
+  throw new Error("Não foi possível gerar um RENAVAM válido com a fonte de números aleatórios informada");
+}
+
+/**
+ * Valida um código RENAVAM.
+ * 
+ * A função limpa a string do RENAVAM, verifica o formato e calcula o dígito verificador
+ * para garantir que o RENAVAM fornecido seja válido.
+ * 
+ * @param renavam - O RENAVAM a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se o RENAVAM for válido e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true se o RENAVAM for válido
+ * isValid("0063988496-2");
+ * 
+ * // Retorna false se o RENAVAM for inválido
+ * isValid("0063988496-3");
+ */
+export function isValid(renavam: string): boolean {
+  return validate(renavam).valid;
+}
+
+/**
+ * Valida um código RENAVAM e retorna o resultado detalhado da validação.
+ * 
+ * O RENAVAM possui apenas um dígito verificador: quando ele não confere, o motivo é `firstCheckDigit`.
+ * 
+ * @param renavam - O RENAVAM a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ValidationResult} O resultado da validação.
+ * 
+ * @example
+ * // Retorna { valid: false, value: "00639884963", kind: "renavam", reason: "firstCheckDigit", expectedCheckDigits: "2" }
+ * validate("0063988496-3");
+ */
+export function validate(renavam: string): ValidationResult {
+  const cleanedRENAVAM = renavam.replace(/\D/g, "");
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedRENAVAM,
+    kind: "renavam",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (cleanedRENAVAM.length !== RENAVAM_LENGTH) {
+    result.reason = /[a-zA-Z]/.test(renavam) ? "invalidCharacter" : "invalidLength";
+    return result;
+  }
+
+  const digits = cleanedRENAVAM.split("").map(Number);
+  const checkDigit = calculateCheckDigit(digits.slice(0, 10));
+  result.expectedCheckDigits = `${checkDigit}`;
+
+  if (/^(\d)\1+$/.test(cleanedRENAVAM)) {
+    result.reason = "repeatedDigits";
+  } else if (checkDigit !== digits[10]) {
+    result.reason = "firstCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Gera uma base aleatória de RENAVAM com 10 dígitos numéricos.
+ * 
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {number[]} Um array de 10 números inteiros, representando a base de um RENAVAM.
+ * 
+ * @example
+ * // Exemplo de retorno: [0, 0, 6, 3, 9, 8, 8, 4, 9, 6]
+ * generateBaseRENAVAM(Math.random);
+ */
+function generateBaseRENAVAM(random: RandomSource): number[] {
+  return Array.from({ length: 10 }, () => Math.floor(random() * 10));
+}
+
+/**
+ * Calcula o dígito verificador de um RENAVAM.
+ * 
+ * A função multiplica cada dígito da base pelos pesos 3, 2, 9, 8, 7, 6, 5, 4, 3 e 2, multiplica a soma
+ * obtida por 10 e calcula o módulo 11 do resultado. Se o resto for 10, o dígito será 0.
+ * 
+ * @param numbers - Um array com os 10 dígitos da base do RENAVAM.
+ * 
+ * @returns {number} O dígito verificador calculado.
+ * 
+ * @example
+ * // Retorna 2
+ * calculateCheckDigit([0, 0, 6, 3, 9, 8, 8, 4, 9, 6]);
+ */
+function calculateCheckDigit(numbers: number[]): number {
+  const sum = numbers.reduce((acc, num, index) => acc + num * WEIGHTS[index], 0);
+  const remainder = (sum * 10) % 11;
+  return remainder === 10 ? 0 : remainder;
+}
+
+/**
+ * Formata um RENAVAM separando o dígito verificador: XXXXXXXXXX-X.
+ * 
+ * @param renavam - O RENAVAM a ser formatado, que deve estar no formato numérico (sem pontuação).
+ * 
+ * @returns {string} O RENAVAM formatado no padrão XXXXXXXXXX-X.
+ * 
+ * @example
+ * // Retorna "0063988496-2"
+ * format("00639884962");
+ */
+function format(renavam: string): string {
+  return renavam.replace(/(\d{10})(\d)/, "$1-$2");
+}
+
+export default {
+  generate,
+  isValid,
+  validate,
+  format,
+};
@@ -0,0 +1,48 @@
+import { StrictValidationOptions } from "../types";
+
+/**
+ * Verifica se um documento está sem formatação ou exatamente na máscara padrão, conforme o modo estrito.
+ * 
+ * Sem formatação, o documento deve conter apenas os caracteres esperados. Com formatação, cada separador
+ * da máscara deve estar presente, podendo ser substituído por um dos caracteres de `options.separators`.
+ * 
+ * @param value - O documento, como foi informado.
+ * @param layout - A máscara do documento, em que cada `X` representa um caractere.
+ * @param characterClass - A classe de caracteres aceita em cada posição `X` (ex: `\\d`).
+ * @param options - As opções do modo estrito.
+ * 
+ * @returns {boolean} Retorna `true` se o documento estiver em uma das formas aceitas.
+ * 
+ * @example
+ * matchesStrictFormat("295.379.955-93", "XXX.XXX.XXX-XX", "\\d", {}); // true
+ * matchesStrictFormat("295 379 955 93", "XXX.XXX.XXX-XX", "\\d", { separators: " " }); // true
+ * matchesStrictFormat("abc295x379y955z93", "XXX.XXX.XXX-XX", "\\d", {}); // false
+ */
+function matchesStrictFormat(
+  value: string,
+  layout: string,
+  characterClass: string,
+  options: StrictValidationOptions
+): boolean {
+  const input = options.trim ? value.trim() : value;
+  const length = layout.split("").filter((char) => char === "X").length;
+  const masked = layout
+    .split("")
+    .map((char) => (char === "X" ? characterClass : `[${escapeClass(char + (options.separators ?? ""))}]`))
+    .join("");
+
+  return new RegExp(`^(?:${characterClass}{${length}}|${masked})$`).test(input);
+}
+
+/**
+ * Escapa os caracteres com significado especial dentro de uma classe de caracteres de expressão regular.
+ * 
+ * @example
+ * // Retorna "\\-\\]"
+ * escapeClass("-]");
+ */
+function escapeClass(characters: string): string {
+  return characters.replace(/[\\\]^-]/g, "\\$&");
+}
+
+export { matchesStrictFormat };
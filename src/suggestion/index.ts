@@ -0,0 +1,81 @@
+import { Suggestion, SuggestionResult } from "../types";
+
+/**
+ * Busca documentos válidos que estão a um erro de digitação do documento informado.
+ * 
+ * São considerados os erros de digitação mais comuns: a troca de um caractere por outro (substituição)
+ * e a inversão de dois caracteres vizinhos (transposição). As sugestões são ordenadas das mais prováveis
+ * para as menos prováveis: primeiro as transposições, depois as substituições com a menor diferença
+ * entre o caractere digitado e o sugerido e, por fim, pela posição do erro.
+ * 
+ * @param value - O documento sem formatação.
+ * @param alphabet - Função que retorna os caracteres permitidos em cada posição do documento.
+ * @param isValid - Função que valida um documento candidato.
+ * 
+ * @returns {SuggestionResult} As sugestões e a posição do erro, quando não houver ambiguidade.
+ * 
+ * @example
+ * // Retorna as sugestões para um CPF com um dígito trocado
+ * findSuggestions("29537995594", () => "0123456789", cpf.isValid);
+ */
+function findSuggestions(
+  value: string,
+  alphabet: (position: number) => string,
+  isValid: (candidate: string) => boolean
+): SuggestionResult {
+  if (isValid(value)) return { suggestions: [], position: null };
+
+  const ranked: { suggestion: Suggestion; distance: number }[] = [];
+  const seen = new Set<string>();
+  const add = (candidate: string, suggestion: Suggestion, distance: number) => {
+    if (seen.has(candidate) || !isValid(candidate)) return;
+    seen.add(candidate);
+    ranked.push({ suggestion, distance });
+  };
+
+  for (let i = 0; i < value.length - 1; i++) {
+    if (value[i] === value[i + 1]) continue;
+    const candidate = value.slice(0, i) + value[i + 1] + value[i] + value.slice(i + 2);
+    add(candidate, { value: candidate, error: "transposition", position: i }, 0);
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    for (const character of alphabet(i)) {
+      if (character === value[i]) continue;
+      const candidate = value.slice(0, i) + character + value.slice(i + 1);
+      const distance = Math.abs(character.charCodeAt(0) - value.charCodeAt(i));
+      add(candidate, { value: candidate, error: "substitution", position: i }, distance);
+    }
+  }
+
+  const suggestions = ranked
+    .sort((a, b) =>
+      rankError(a.suggestion) - rankError(b.suggestion) ||
+      a.distance - b.distance ||
+      a.suggestion.position - b.suggestion.position
+    )
+    .map(({ suggestion }) => suggestion);
+
+  const positions = new Set(suggestions.map((suggestion) => suggestion.position));
+
+  return {
+    suggestions,
+    position: positions.size === 1 ? suggestions[0].position : null,
+  };
+}
+
+/**
+ * Retorna a prioridade de um tipo de erro na ordenação das sugestões.
+ * 
+ * @param suggestion - A sugestão a ser classificada.
+ * 
+ * @returns {number} `0` para transposições e `1` para substituições.
+ * 
+ * @example
+ * rankError({ value: "29537995593", error: "transposition", position: 3 }); // 0
+ */
+function rankError(suggestion: Suggestion): number {
+  return suggestion.error === "transposition" ? 0 : 1;
+}
+
+export { findSuggestions };
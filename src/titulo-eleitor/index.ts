@@ -0,0 +1,220 @@
+import { TITULO_ELEITOR_LENGTH, TITULO_ELEITOR_UF_CODES } from "../constants";
+import { resolveRandom } from "../random";
+import { ParsedTituloEleitor, RandomOptions, RandomSource, UF, ValidationResult } from "../types";
+
+interface TituloEleitorOptions extends RandomOptions {
+  formatted?: boolean;
+  uf?: UF | "ZZ";
+}
+
+/**
+ * Gera um número de título de eleitor.
+ * 
+ * Esta função gera um título de eleitor válido, emitido na UF informada ou em uma UF aleatória.
+ * O título gerado pode ser retornado com ou sem a formatação.
+ * 
+ * @param {TituloEleitorOptions} [options] - Opções para a geração do título de eleitor.
+ * @param {boolean} [options.formatted] - Se verdadeiro, retorna o título formatado (XXXX XXXX XXXX).
+ * @param {(UF | 'ZZ')} [options.uf] - A UF em que o título foi emitido, ou `'ZZ'` para o exterior.
+ * Se não for especificada, a UF é escolhida aleatoriamente.
+ * @param {(number | string)} [options.seed] - Semente para uma geração determinística.
+ * @param {RandomSource} [options.random] - Fonte de números aleatórios a ser utilizada no lugar de `Math.random`.
+ * @param {boolean} [options.secure] - Se verdadeiro, utiliza uma fonte criptograficamente segura.
+ * 
+ * @returns {string} O título de eleitor gerado, podendo ser formatado ou não, conforme as opções fornecidas.
+ * 
+ * @throws {Error} Se a UF informada não existir.
+ * 
+ * @example
+ * // Retorna um título de eleitor emitido em SP, como '102385010671'
+ * generate({ uf: 'SP' });
+ * 
+ * @example
+ * // Retorna um título de eleitor formatado, como '1023 8501 0671'
+ * generate({ formatted: true });
+ */
+export function generate(options?: TituloEleitorOptions): string {
+  const random = resolveRandom(options);
+  const ufCodes = Object.keys(TITULO_ELEITOR_UF_CODES);
+  const ufCode = options?.uf
+    ? ufCodes.find((code) => TITULO_ELEITOR_UF_CODES[code] === options.uf)
+    : ufCodes[Math.floor(random() * ufCodes.length)];
+
+  if (!ufCode) throw new Error(`UF inválida: ${options?.uf}`);
+
+  const sequence = generateSequence(random);
+  const [firstDigit, secondDigit] = calculateCheckDigits(sequence, ufCode);
+  const titulo = `${sequence.join("")}${ufCode}${firstDigit}${secondDigit}`;
+
+  return options?.formatted ? format(titulo) : titulo;
+}
+
+/**
+ * Valida um título de eleitor.
+ * 
+ * A função limpa a string do título, verifica o formato, o código da UF e calcula os dois dígitos
+ * verificadores para garantir que o título fornecido seja válido.
+ * 
+ * @param titulo - O título de eleitor a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {boolean} Retorna `true` se o título de eleitor for válido e `false` caso contrário.
+ * 
+ * @example
+ * // Retorna true se o título de eleitor for válido
+ * isValid("1023 8501 0671");
+ * 
+ * // Retorna false se o título de eleitor for inválido
+ * isValid("1023 8501 0672");
+ */
+export function isValid(titulo: string): boolean {
+  return validate(titulo).valid;
+}
+
+/**
+ * Valida um título de eleitor e retorna o resultado detalhado da validação.
+ * 
+ * @param titulo - O título de eleitor a ser validado, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ValidationResult} O resultado da validação. Quando o código da UF não existe, o motivo é `invalidState`.
+ * 
+ * @example
+ * // Retorna { valid: false, value: "102385010672", kind: "titulo-eleitor", reason: "secondCheckDigit", expectedCheckDigits: "71" }
+ * validate("1023 8501 0672");
+ */
+export function validate(titulo: string): ValidationResult {
+  const cleanedTitulo = titulo.replace(/\D/g, "");
+  const result: ValidationResult = {
+    valid: false,
+    value: cleanedTitulo,
+    kind: "titulo-eleitor",
+    reason: null,
+    expectedCheckDigits: null,
+  };
+
+  if (cleanedTitulo.length !== TITULO_ELEITOR_LENGTH) {
+    result.reason = /[a-zA-Z]/.test(titulo) ? "invalidCharacter" : "invalidLength";
+    return result;
+  }
+
+  const digits = cleanedTitulo.split("").map(Number);
+  const ufCode = cleanedTitulo.slice(8, 10);
+
+  if (!TITULO_ELEITOR_UF_CODES[ufCode]) {
+    result.reason = "invalidState";
+    return result;
+  }
+
+  const [firstDigit, secondDigit] = calculateCheckDigits(digits.slice(0, 8), ufCode);
+  result.expectedCheckDigits = `${firstDigit}${secondDigit}`;
+
+  if (/^(\d)\1+$/.test(cleanedTitulo)) {
+    result.reason = "repeatedDigits";
+  } else if (firstDigit !== digits[10]) {
+    result.reason = "firstCheckDigit";
+  } else if (secondDigit !== digits[11]) {
+    result.reason = "secondCheckDigit";
+  } else {
+    result.valid = true;
+  }
+
+  return result;
+}
+
+/**
+ * Separa um título de eleitor em número sequencial, UF e dígitos verificadores.
+ * 
+ * @param titulo - O título de eleitor, que pode estar no formato com ou sem pontuação.
+ * 
+ * @returns {ParsedTituloEleitor | null} As partes do título de eleitor, ou `null` se o título for inválido.
+ * 
+ * @example
+ * // Retorna { value: "102385010671", sequence: "10238501", ufCode: "06", uf: "PR", checkDigits: "71" }
+ * parse("1023 8501 0671");
+ */
+export function parse(titulo: string): ParsedTituloEleitor | null {
+  const result = validate(titulo);
+  if (!result.valid) return null;
+
+  const ufCode = result.value.slice(8, 10);
+
+  return {
+    value: result.value,
+    sequence: result.value.slice(0, 8),
+    ufCode,
+    uf: TITULO_ELEITOR_UF_CODES[ufCode] as ParsedTituloEleitor["uf"],
+    checkDigits: result.value.slice(10),
+  };
+}
+
+/**
+ * Gera um número sequencial aleatório de título de eleitor, com 8 dígitos.
+ * 
+ * @param random - A fonte de números aleatórios.
+ * 
+ * @returns {number[]} Um array de 8 números inteiros.
+ * 
+ * @example
+ * // Exemplo de retorno: [1, 0, 2, 3, 8, 5, 0, 1]
+ * generateSequence(Math.random);
+ */
+function generateSequence(random: RandomSource): number[] {
+  return Array.from({ length: 8 }, () => Math.floor(random() * 10));
+}
+
+/**
+ * Calcula os dois dígitos verificadores de um título de eleitor.
+ * 
+ * O primeiro dígito é calculado a partir do número sequencial, com os pesos de 2 a 9, e o segundo a partir
+ * do código da UF e do primeiro dígito, com os pesos 7, 8 e 9. Em ambos, o dígito é o resto da divisão
+ * da soma por 11; se o resto for 10, o dígito será 0. Para títulos emitidos em SP (`01`) e MG (`02`),
+ * um resto 0 resulta no dígito 1.
+ * 
+ * @param sequence - Os 8 dígitos do número sequencial.
+ * @param ufCode - O código da UF, com 2 dígitos.
+ * 
+ * @returns {number[]} Um array com os dois dígitos verificadores.
+ * 
+ * @example
+ * // Retorna [7, 1]
+ * calculateCheckDigits([1, 0, 2, 3, 8, 5, 0, 1], "06");
+ */
+function calculateCheckDigits(sequence: number[], ufCode: string): number[] {
+  const specialState = ufCode === "01" || ufCode === "02";
+  const toCheckDigit = (sum: number) => {
+    const rest = sum % 11;
+    if (rest === 10) return 0;
+    if (rest === 0 && specialState) return 1;
+    return rest;
+  };
+
+  const firstDigit = toCheckDigit(
+    sequence.reduce((acc, num, index) => acc + num * (index + 2), 0)
+  );
+  const [ufFirst, ufSecond] = ufCode.split("").map(Number);
+  const secondDigit = toCheckDigit(ufFirst * 7 + ufSecond * 8 + firstDigit * 9);
+
+  return [firstDigit, secondDigit];
+}
+
+/**
+ * Formata um título de eleitor aplicando o formato padrão: XXXX XXXX XXXX.
+ * 
+ * @param titulo - O título de eleitor a ser formatado, que deve estar no formato numérico (sem pontuação).
+ * 
+ * @returns {string} O título de eleitor formatado no padrão XXXX XXXX XXXX.
+ * 
+ * @example
+ * // Retorna "1023 8501 0671"
+ * format("102385010671");
+ */
+function format(titulo: string): string {
+  return titulo.replace(/(\d{4})(\d{4})(\d{4})/, "$1 $2 $3");
+}
+
+export default {
+  generate,
+  isValid,
+  validate,
+  parse,
+  format,
+};
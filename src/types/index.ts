@@ -0,0 +1,404 @@
+import { UFS } from "../constants";
+
+/**
+ * Tipo de documento identificado durante a validação.
+ *
+ * - `'cpf'`: CPF, composto por 11 dígitos.
+ * - `'cnpj-numeric'`: CNPJ clássico, composto por 14 dígitos.
+ * - `'cnpj-alfanumeric'`: CNPJ alfanumérico, com letras na base de 12 caracteres.
+ * - `'pis'`: PIS/PASEP/NIT, composto por 11 dígitos.
+ * - `'titulo-eleitor'`: título de eleitor, composto por 12 dígitos.
+ * - `'cnh'`: registro da CNH, composto por 11 dígitos.
+ * - `'renavam'`: RENAVAM, composto por 11 dígitos.
+ * - `'cns'`: Cartão Nacional de Saúde, composto por 15 dígitos.
+ */
+export type DocumentKind =
+  | "cpf"
+  | "cnpj-numeric"
+  | "cnpj-alfanumeric"
+  | "pis"
+  | "titulo-eleitor"
+  | "cnh"
+  | "renavam"
+  | "cns";
+
+/**
+ * Sigla de uma unidade federativa (UF).
+ */
+export type UF = (typeof UFS)[number];
+
+/**
+ * Motivo pelo qual um documento foi rejeitado.
+ *
+ * - `'invalidLength'`: o documento não possui a quantidade de caracteres esperada.
+ * - `'invalidCharacter'`: o documento contém caracteres não permitidos.
+ * - `'repeatedDigits'`: o documento é uma sequência de dígitos repetidos (ex: `111.111.111-11`).
+ * - `'blocklisted'`: o documento está em uma lista de valores bloqueados (ex: `123.456.789-09`).
+ * - `'firstCheckDigit'`: o primeiro dígito verificador não confere.
+ * - `'secondCheckDigit'`: o segundo dígito verificador não confere.
+ * - `'invalidState'`: o código da unidade federativa (UF) não existe.
+ * - `'invalidPrefix'`: o documento começa com um dígito não permitido (ex: CNS iniciado por 3).
+ * - `'invalidFormat'`: no modo estrito, o documento não está sem formatação nem na máscara exata.
+ */
+export type ValidationReason =
+  | "invalidLength"
+  | "invalidCharacter"
+  | "repeatedDigits"
+  | "blocklisted"
+  | "firstCheckDigit"
+  | "secondCheckDigit"
+  | "invalidState"
+  | "invalidPrefix"
+  | "invalidFormat";
+
+declare const brand: unique symbol;
+
+/**
+ * Marca um tipo primitivo para diferenciá-lo de outros valores do mesmo tipo (branded type).
+ * 
+ * A marca existe apenas em tempo de compilação: em tempo de execução, o valor continua sendo uma string.
+ */
+export type Brand<T, B extends string> = T & { readonly [brand]: { readonly [K in B]: true } };
+
+/**
+ * CPF válido, com ou sem formatação. É obtido com `cpf.isValid`, `assertCPF`, `parseCPF` ou `cpf.generate`.
+ */
+export type CPF = Brand<string, "CPF">;
+
+/**
+ * CPF válido no formato XXX.XXX.XXX-XX.
+ */
+export type FormattedCPF = CPF & Brand<string, "FormattedCPF">;
+
+/**
+ * CNPJ válido (numérico ou alfanumérico), com ou sem formatação. É obtido com `cnpj.isValid`, `assertCNPJ`,
+ * `parseCNPJ` ou `cnpj.generate`.
+ */
+export type CNPJ = Brand<string, "CNPJ">;
+
+/**
+ * CNPJ válido no formato XX.XXX.XXX/XXXX-XX.
+ */
+export type FormattedCNPJ = CNPJ & Brand<string, "FormattedCNPJ">;
+
+/**
+ * CNPJ válido composto apenas por números. É obtido com `isNumericCNPJ`.
+ */
+export type NumericCNPJ = CNPJ & Brand<string, "NumericCNPJ">;
+
+/**
+ * CNPJ válido com letras na base. É obtido com `isAlphanumericCNPJ`.
+ */
+export type AlphanumericCNPJ = CNPJ & Brand<string, "AlphanumericCNPJ">;
+
+/**
+ * Resultado detalhado da validação de um documento.
+ */
+export interface ValidationResult {
+  /** Indica se o documento é válido. */
+  valid: boolean;
+  /** O documento sem formatação. */
+  value: string;
+  /** O tipo de documento identificado. */
+  kind: DocumentKind;
+  /** O motivo da rejeição, ou `null` quando o documento é válido. */
+  reason: ValidationReason | null;
+  /** Os dígitos verificadores esperados, ou `null` quando não puderam ser calculados. */
+  expectedCheckDigits: string | null;
+}
+
+/**
+ * Resultado detalhado da validação de um documento cujo tipo é identificado automaticamente.
+ */
+export interface DocumentValidationResult extends Omit<ValidationResult, "kind"> {
+  /** O tipo de documento identificado, ou `null` quando não foi possível identificá-lo. */
+  kind: DocumentKind | null;
+}
+
+/**
+ * Partes que compõem um CNPJ (numérico ou alfanumérico).
+ */
+export interface ParsedCNPJ {
+  /** O CNPJ sem formatação. */
+  value: CNPJ;
+  /** O tipo de CNPJ identificado. */
+  kind: Extract<DocumentKind, "cnpj-numeric" | "cnpj-alfanumeric">;
+  /** A raiz do CNPJ, com os 8 primeiros caracteres, que identifica a empresa. */
+  root: string;
+  /** A ordem do estabelecimento, com 4 caracteres (ex: `0001`). */
+  branch: string;
+  /** Os dois dígitos verificadores. */
+  checkDigits: string;
+  /** Indica se o CNPJ pertence à matriz (ordem `0001`). */
+  headquarters: boolean;
+}
+
+/**
+ * CNPJs de uma mesma raiz (empresa), agrupados por `cnpj.groupByRoot`.
+ */
+export interface CNPJRootGroup {
+  /** A raiz comum, com os 8 primeiros caracteres. */
+  root: string;
+  /** Os CNPJs distintos da raiz (matriz e filiais), sem formatação e ordenados por `cnpj.compare`. */
+  cnpjs: CNPJ[];
+  /** Os CNPJs que aparecem mais de uma vez na lista, sem formatação e ordenados por `cnpj.compare`. */
+  duplicates: CNPJ[];
+}
+
+/**
+ * Fonte de números aleatórios, que deve retornar um número no intervalo [0, 1), assim como `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Opções que controlam a fonte de números aleatórios utilizada na geração de documentos.
+ */
+export interface RandomOptions {
+  /** Semente para uma geração determinística: a mesma semente sempre gera o mesmo documento. */
+  seed?: number | string;
+  /** Fonte de números aleatórios a ser utilizada. Tem prioridade sobre `seed` e `secure`. */
+  random?: RandomSource;
+  /** Se verdadeiro, utiliza uma fonte criptograficamente segura. */
+  secure?: boolean;
+}
+
+/**
+ * Opções do modo estrito de validação de CPF e CNPJ.
+ */
+export interface StrictValidationOptions {
+  /**
+   * Se verdadeiro, aceita apenas o documento sem formatação ou exatamente na máscara padrão, rejeitando
+   * caracteres extras como em `abc295x379y955z93`.
+   */
+  strict?: boolean;
+  /** No modo estrito, aceita espaços em branco no início e no fim do documento. */
+  trim?: boolean;
+  /**
+   * No modo estrito, caracteres aceitos no lugar de cada separador da máscara, além do separador padrão
+   * (ex: `" "` para aceitar `295 379 955 93`).
+   */
+  separators?: string;
+}
+
+/**
+ * Opções das regras `cpf`, `cnpj` e `cpfOrCnpj` da extensão Joi.
+ */
+export interface DocumentRuleOptions {
+  /**
+   * Exige que o documento seja informado formatado (`'masked'`) ou sem formatação (`'unmasked'`).
+   * Se não for especificado, ambos são aceitos.
+   */
+  input?: "masked" | "unmasked";
+  /**
+   * Converte o documento para a forma sem formatação (`'clean'`) ou formatada (`'formatted'`).
+   * Se não for especificado, o valor é retornado como foi informado.
+   */
+  output?: "clean" | "formatted";
+  /**
+   * Se verdadeiro, converte as letras do CNPJ alfanumérico para maiúsculas. Com `output`, o CNPJ já é
+   * retornado com letras maiúsculas, tanto sem formatação quanto formatado.
+   */
+  uppercase?: boolean;
+}
+
+/**
+ * Opções das regras `cpf`, `cnpj` e `cpfOrCnpj` da extensão Joi, que também aceitam o modo estrito.
+ */
+export interface StrictDocumentRuleOptions extends DocumentRuleOptions, StrictValidationOptions {}
+
+/**
+ * Idioma das mensagens de erro.
+ */
+export type MessageLocale = "pt-BR" | "en" | "es";
+
+/**
+ * Mensagens de erro de um idioma.
+ */
+export interface LocaleMessages {
+  /** As mensagens, indexadas pelo código do erro (ex: `document.cpf.firstCheckDigit`). */
+  messages: Record<string, string>;
+  /** O nome de cada tipo de documento, e de `unknown`, quando o tipo não foi identificado. */
+  kinds: Record<DocumentKind | "unknown", string>;
+}
+
+/**
+ * Opções da extensão Joi.
+ */
+export interface DocumentValidatorOptions {
+  /** O idioma das mensagens de erro. O padrão é `'pt-BR'`. */
+  locale?: MessageLocale;
+  /**
+   * Mensagens utilizadas no lugar das mensagens do idioma, indexadas pelo código do erro. Podem conter os
+   * trechos `{{#kind}}`, `{{#reason}}` e `{{#document}}`, com o tipo identificado, o motivo da falha e o
+   * nome do documento.
+   */
+  messages?: Record<string, string>;
+  /** Se falso, o valor `null` é rejeitado. O padrão é verdadeiro. */
+  allowNull?: boolean;
+}
+
+/**
+ * Opções da regra `inscricaoEstadual` da extensão Joi.
+ */
+export interface InscricaoEstadualRuleOptions extends DocumentRuleOptions {
+  /** Se falso, o valor `ISENTO` é rejeitado. O padrão é verdadeiro. */
+  allowExempt?: boolean;
+}
+
+/**
+ * Documento válido sugerido como correção de um erro de digitação.
+ */
+export interface Suggestion {
+  /** O documento sugerido, sem formatação. */
+  value: string;
+  /**
+   * O tipo de erro corrigido:
+   * - `'substitution'`: um caractere foi digitado no lugar de outro.
+   * - `'transposition'`: dois caracteres vizinhos foram digitados em ordem invertida.
+   */
+  error: "substitution" | "transposition";
+  /** A posição do caractere corrigido (a partir de 0). Na transposição, a posição do primeiro caractere. */
+  position: number;
+}
+
+/**
+ * Sugestões de correção para um documento inválido.
+ */
+export interface SuggestionResult {
+  /** As sugestões, das mais prováveis para as menos prováveis. */
+  suggestions: Suggestion[];
+  /** A posição do erro, quando todas as sugestões apontam para a mesma posição, ou `null` caso contrário. */
+  position: number | null;
+}
+
+/**
+ * Opções para ocultar parte de um documento.
+ */
+export interface MaskOptions {
+  /**
+   * Padrão de caracteres visíveis:
+   * - `'government'`: padrão adotado pelo governo federal, que oculta os 3 primeiros e os 2 últimos
+   * dígitos do CPF (`***.456.789-**`) e os 2 primeiros e os 2 últimos caracteres do CNPJ (`**.345.678/0001-**`).
+   * - `'full'`: oculta todos os caracteres.
+   * Se não for especificado, o padrão será `'government'`.
+   */
+  preset?: "government" | "full";
+  /**
+   * Intervalos de caracteres visíveis, no formato `[início, fim)`, considerando o documento sem formatação
+   * (posições a partir de 0). Tem prioridade sobre `preset`.
+   */
+  visible?: [number, number][];
+  /** O caractere utilizado no lugar dos caracteres ocultos. O padrão é `'*'`. */
+  placeholder?: string;
+  /** Se falso, retorna o documento sem a pontuação. O padrão é `true`. */
+  formatted?: boolean;
+}
+
+/**
+ * Resultado da formatação de um documento parcialmente digitado.
+ */
+export interface PartialFormatResult {
+  /** O documento com a máscara aplicada até o último caractere digitado. */
+  value: string;
+  /** A posição do cursor após a formatação. */
+  caret: number;
+  /** A máscara aplicada, ou `null` se o valor não puder mais ser um CPF nem um CNPJ. */
+  kind: "cpf" | "cnpj" | null;
+  /** Indica se o valor ainda pode se tornar um CPF ou um CNPJ válido. */
+  possible: {
+    cpf: boolean;
+    cnpj: boolean;
+  };
+  /** Indica se o valor é um documento completo e válido. */
+  complete: boolean;
+}
+
+/**
+ * Partes que compõem um título de eleitor.
+ */
+export interface ParsedTituloEleitor {
+  /** O título de eleitor sem formatação. */
+  value: string;
+  /** O número sequencial, com os 8 primeiros dígitos. */
+  sequence: string;
+  /** O código da UF, com 2 dígitos (ex: `01` para SP). */
+  ufCode: string;
+  /** A sigla da UF em que o título foi emitido, ou `ZZ` para eleitores inscritos no exterior. */
+  uf: UF | "ZZ";
+  /** Os dois dígitos verificadores. */
+  checkDigits: string;
+}
+
+/**
+ * Tipo de uma chave Pix:
+ * - `'cpf'` e `'cnpj'`: o documento do titular, apenas com dígitos (ou letras maiúsculas, no CNPJ alfanumérico).
+ * - `'email'`: um endereço de e-mail, em letras minúsculas.
+ * - `'phone'`: um número de telefone brasileiro no formato `+55DDNNNNNNNNN`.
+ * - `'evp'`: uma chave aleatória, no formato UUID.
+ */
+export type PixKeyType = "cpf" | "cnpj" | "email" | "phone" | "evp";
+
+/**
+ * Opções da regra `pixKey` da extensão Joi.
+ */
+export interface PixKeyRuleOptions {
+  /** Os tipos de chave aceitos. Se não for especificado, todos os tipos são aceitos. */
+  types?: PixKeyType[];
+  /** Se verdadeiro, converte a chave para a forma canônica utilizada no DICT. */
+  normalize?: boolean;
+}
+
+/**
+ * Opções da validação em lote de arquivos CSV ou NDJSON.
+ */
+export interface BatchValidationOptions {
+  /** O formato do arquivo: CSV com cabeçalho ou NDJSON (um objeto JSON por linha). */
+  format: "csv" | "ndjson";
+  /**
+   * As colunas a serem validadas e o tipo de documento de cada uma: `'cpf'`, `'cnpj'` ou `'auto'`, para
+   * identificar automaticamente se o valor é um CPF ou um CNPJ.
+   */
+  columns: Record<string, "cpf" | "cnpj" | "auto">;
+  /** O separador das colunas do CSV. O padrão é `,`. */
+  delimiter?: string;
+  /** Se verdadeiro, valores vazios não são validados nem contados como falhas. */
+  skipEmpty?: boolean;
+  /**
+   * Se verdadeiro, informa no relatório os documentos repetidos. Para isso, cada documento lido é mantido
+   * em memória até o final do arquivo, o que faz o consumo de memória crescer com o tamanho do arquivo.
+   * O padrão é `false`.
+   */
+  duplicates?: boolean;
+}
+
+/**
+ * Documento repetido encontrado na validação em lote.
+ */
+export interface BatchDuplicate {
+  /** A coluna em que o documento se repete. */
+  column: string;
+  /** O documento, sem formatação. */
+  value: string;
+  /** Os números das linhas em que o documento aparece. */
+  rows: number[];
+}
+
+/**
+ * Relatório da validação em lote de um arquivo.
+ */
+export interface BatchReport {
+  /** A quantidade de registros processados, sem contar o cabeçalho. */
+  rows: number;
+  /** A quantidade de registros em que todas as colunas são válidas. */
+  validRows: number;
+  /** A quantidade de registros com ao menos uma coluna inválida. */
+  invalidRows: number;
+  /** A quantidade de falhas por motivo, somando todas as colunas. */
+  failures: Partial<Record<ValidationReason, number>>;
+  /** Os números das linhas dos registros inválidos, contando o cabeçalho do CSV como linha 1. */
+  invalidRowNumbers: number[];
+  /**
+   * Os documentos que aparecem em mais de um registro. Fica vazio se a opção `duplicates` não for informada.
+   */
+  duplicates: BatchDuplicate[];
+}
@@ -0,0 +1,102 @@
+import { PassThrough, Readable } from "stream";
+import { BatchValidationOptions, createValidationStream, validateBatch } from "../src/index";
+
+const CSV = [
+  "nome,documento,empresa",
+  '"Silva, Ana",295.379.955-93,25.143.815/0001-50',
+  "Bruno,295.379.955-94,12ABC34501DE35",
+  "",
+  'Carla "Cacá",29537995593,25143815000140',
+  '"Daniel\nSouza",111.111.111-11,',
+].join("\n");
+
+describe("Validação em lote", () => {
+  it("valida as colunas de um CSV e gera o relatório", async () => {
+    const report = await validateBatch(CSV, {
+      format: "csv",
+      columns: { documento: "cpf", empresa: "auto" },
+      duplicates: true,
+    });
+
+    expect(report).toEqual({
+      rows: 4,
+      validRows: 1,
+      invalidRows: 3,
+      failures: { secondCheckDigit: 1, firstCheckDigit: 1, repeatedDigits: 1, invalidLength: 1 },
+      invalidRowNumbers: [3, 5, 6],
+      duplicates: [{ column: "documento", value: "29537995593", rows: [2, 5] }],
+    });
+  });
+
+  it("só procura documentos repetidos com a opção duplicates", async () => {
+    const report = await validateBatch(CSV, { format: "csv", columns: { documento: "cpf" } });
+
+    expect(report.duplicates).toEqual([]);
+    expect(report.invalidRowNumbers).toEqual([3, 6]);
+  });
+
+  it("adiciona as colunas de resultado ao CSV", async () => {
+    let output = "";
+    const writable = new PassThrough().on("data", (chunk) => (output += chunk));
+
+    await validateBatch(CSV, { format: "csv", columns: { empresa: "cnpj" }, skipEmpty: true }, writable);
+
+    expect(output).toBe(
+      [
+        "nome,documento,empresa,empresa_valid,empresa_reason",
+        '"Silva, Ana",295.379.955-93,25.143.815/0001-50,true,',
+        "Bruno,295.379.955-94,12ABC34501DE35,true,",
+        '"Carla ""Cacá""",29537995593,25143815000140,false,firstCheckDigit',
+        '"Daniel\nSouza",111.111.111-11,,,',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("valida as colunas de um NDJSON", async () => {
+    const lines = [
+      '{"id":1,"cpf":"295.379.955-93"}',
+      '{"id":2,"cpf":"295.379.955-94"}',
+      '{"id":3}',
+    ];
+    let output = "";
+    const writable = new PassThrough().on("data", (chunk) => (output += chunk));
+
+    // Entrada dividida em trechos arbitrários, como em uma stream de arquivo
+    const chunks = lines.join("\n").match(/.{1,7}/gs)!;
+    const report = await validateBatch(Readable.from(chunks), { format: "ndjson", columns: { cpf: "cpf" } }, writable);
+
+    expect(report).toMatchObject({ rows: 3, validRows: 1, invalidRowNumbers: [2, 3] });
+    expect(output.trim().split("\n").map((line) => JSON.parse(line))).toEqual([
+      { id: 1, cpf: "295.379.955-93", cpf_valid: true, cpf_reason: null },
+      { id: 2, cpf: "295.379.955-94", cpf_valid: false, cpf_reason: "secondCheckDigit" },
+      { id: 3, cpf_valid: false, cpf_reason: "invalidLength" },
+    ]);
+  });
+
+  it("emite o relatório ao final da stream", (done) => {
+    const stream = createValidationStream({ format: "ndjson", columns: { cnpj: "cnpj" } });
+
+    stream.on("report", (report) => {
+      expect(report).toMatchObject({ rows: 1, validRows: 1 });
+      done();
+    });
+    stream.resume();
+    stream.end('{"cnpj":"12.ABC.345/01DE-35"}\n');
+  });
+
+  it("falha quando a coluna não existe ou o JSON é inválido", async () => {
+    await expect(validateBatch("nome,cpf\n", { format: "csv", columns: { documento: "cpf" } })).rejects.toThrow(
+      "Coluna não encontrada no CSV: documento"
+    );
+    await expect(validateBatch('{"cpf":1}\n{cpf}\n', { format: "ndjson", columns: { cpf: "cpf" } })).rejects.toThrow(
+      "JSON inválido na linha 2"
+    );
+    const columns: Record<string, string> = { cpf: "rg" };
+    expect(() =>
+      createValidationStream({ format: "csv", columns: columns as BatchValidationOptions["columns"] })
+    ).toThrow(
+      "Tipo de documento inválido para a coluna cpf: rg"
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { validateSync } from "class-validator";
+import { IsCNPJ, IsCPF, IsCPFOrCNPJ } from "../src/adapters/class-validator";
+
+class Cliente {
+  @IsCPF()
+  cpf!: unknown;
+
+  @IsCNPJ({ message: "CNPJ da empresa inválido" })
+  cnpj!: unknown;
+
+  @IsCPFOrCNPJ()
+  documento!: unknown;
+}
+
+function createCliente(values: Partial<Cliente>): Cliente {
+  return Object.assign(new Cliente(), { cpf: "295.379.955-93", cnpj: "25143815000150", documento: "12ABC34501DE35" }, values);
+}
+
+describe("Adaptador class-validator", () => {
+  it("valida CPF e CNPJ", () => {
+    expect(validateSync(createCliente({}))).toEqual([]);
+  });
+
+  it("informa a mesma mensagem da extensão Joi", () => {
+    const [error] = validateSync(createCliente({ cpf: "295.379.955-94" }));
+
+    expect(error.property).toBe("cpf");
+    expect(error.constraints).toEqual({ isCPF: "CPF inválido: segundo dígito verificador não confere" });
+  });
+
+  it("indica o tipo identificado na regra cpfOrCnpj", () => {
+    const [error] = validateSync(createCliente({ documento: "25.143.815/0001-40" }));
+    expect(error.constraints).toEqual({ isCPFOrCNPJ: "CNPJ inválido: primeiro dígito verificador não confere" });
+  });
+
+  it("permite substituir a mensagem e rejeita valores que não são strings", () => {
+    const errors = validateSync(createCliente({ cnpj: "123", cpf: 29537995593 }));
+
+    expect(errors.map((error) => error.constraints)).toEqual([
+      { isCPF: "CPF deve conter 11 dígitos" },
+      { isCNPJ: "CNPJ da empresa inválido" },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { Readable } from "stream";
+import { run } from "../src/cli";
+import { cnpj, cpf } from "../src/index";
+
+async function execute(args: string[], stdin: string = "") {
+  let stdout = "";
+  let stderr = "";
+  const code = await run(args, {
+    stdin: Readable.from([stdin]),
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+  });
+
+  return { code, stdout, stderr };
+}
+
+describe("Linha de comando", () => {
+  it("valida documentos informados como argumentos", async () => {
+    expect(await execute(["validate", "295.379.955-93", "25.143.815/0001-50"])).toEqual({
+      code: 0,
+      stdout: "295.379.955-93\tválido\n25.143.815/0001-50\tválido\n",
+      stderr: "",
+    });
+  });
+
+  it("retorna código 1 quando algum documento é inválido", async () => {
+    const { code, stdout } = await execute(["validate", "295.379.955-93", "295.379.955-94"]);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe("295.379.955-93\tválido\n295.379.955-94\tinválido\tsecondCheckDigit\n");
+  });
+
+  it("valida documentos lidos da entrada padrão", async () => {
+    const { code, stdout } = await execute(["validate", "--json"], "29537995593\n\n12ABC34501DE35\r\n");
+
+    expect(code).toBe(0);
+    expect(stdout.trim().split("\n").map((line) => JSON.parse(line))).toMatchObject([
+      { input: "29537995593", valid: true, kind: "cpf" },
+      { input: "12ABC34501DE35", valid: true, kind: "cnpj-alfanumeric" },
+    ]);
+  });
+
+  it("restringe o tipo de documento validado", async () => {
+    const { code, stdout } = await execute(["validate", "--type", "cnpj", "29537995593"]);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe("29537995593\tinválido\tinvalidLength\n");
+  });
+
+  it("gera documentos", async () => {
+    const { code, stdout } = await execute(["generate", "--count", "3", "--type", "cnpj-alfanumeric", "--formatted"]);
+    const documents = stdout.trim().split("\n");
+
+    expect(code).toBe(0);
+    expect(documents).toHaveLength(3);
+    expect(new Set(documents).size).toBe(3);
+    documents.forEach((cnpj) => expect(cnpj).toMatch(/^[A-Z\d]{2}\.[A-Z\d]{3}\.[A-Z\d]{3}\/[A-Z\d]{4}-\d{2}$/));
+  });
+
+  it("gera documentos reproduzíveis com a semente", async () => {
+    const first = await execute(["generate", "--count", "5", "--seed", "42"]);
+    const second = await execute(["generate", "--count", "5", "--seed", "42"]);
+
+    expect(first.stdout).toBe(second.stdout);
+    expect(JSON.parse((await execute(["generate", "--json"])).stdout)).toMatchObject({ kind: "cpf" });
+  });
+
+  it("gera os mesmos documentos que a API para a mesma semente", async () => {
+    expect((await execute(["generate", "--seed", "42"])).stdout).toBe(`${cpf.generate({ seed: 42 })}\n`);
+    expect((await execute(["generate", "--count", "3", "--seed", "42"])).stdout).toBe(
+      `${Array.from(cpf.generateMany(3, { seed: 42 })).join("\n")}\n`
+    );
+    expect((await execute(["generate", "--type", "cnpj", "--seed", "7"])).stdout).toBe(
+      `${Array.from(cnpj.generateMany(1, { type: "numeric", seed: 7 }))[0]}\n`
+    );
+    expect((await execute(["generate", "--seed", "abc"])).stdout).toBe(
+      `${Array.from(cpf.generateMany(1, { seed: "abc" }))[0]}\n`
+    );
+  });
+
+  it("formata e remove a formatação de documentos", async () => {
+    expect((await execute(["format", "29537995593", "25143815000150"])).stdout).toBe(
+      "295.379.955-93\n25.143.815/0001-50\n"
+    );
+    expect((await execute(["clean", "--json"], "295.379.955-93\n")).stdout).toBe(
+      '{"input":"295.379.955-93","output":"29537995593"}\n'
+    );
+  });
+
+  it("retorna código 2 para argumentos inválidos", async () => {
+    expect(await execute(["bogus"])).toMatchObject({ code: 2, stderr: "Comando desconhecido: bogus\n" });
+    expect(await execute(["generate", "--type", "rg"])).toMatchObject({ code: 2, stderr: "Tipo inválido para generate: rg\n" });
+    for (const type of ["constructor", "toString", "__proto__"]) {
+      expect(await execute(["validate", "--type", type, "29537995593"])).toMatchObject({
+        code: 2,
+        stdout: "",
+        stderr: `Tipo inválido para validate: ${type}\n`,
+      });
+    }
+    expect((await execute(["validate", "--nope"])).code).toBe(2);
+    for (const count of ["abc", "1.5", "-1", "0"]) {
+      expect(await execute(["generate", `--count=${count}`])).toMatchObject({
+        code: 2,
+        stdout: "",
+        stderr: expect.stringContaining(`Quantidade inválida: ${count}`),
+      });
+    }
+    expect((await execute(["generate", "--count", "abc"])).stderr).toContain("Uso: cpf-cnpj");
+    expect((await execute([])).code).toBe(2);
+    expect(await execute(["--help"])).toMatchObject({ code: 0, stdout: expect.stringContaining("Uso: cpf-cnpj") });
+  });
+});
@@ -0,0 +1,61 @@
+import { cnh } from "../src/index";
+
+describe("CNH", () => {
+  it("números de listas negras", () => {
+    expect(cnh.isValid("00000000000")).toBeFalsy();
+    expect(cnh.isValid("11111111111")).toBeFalsy();
+    expect(cnh.isValid("99999999999")).toBeFalsy();
+  });
+
+  it("rejeita valores falsos", () => {
+    expect(cnh.isValid("")).toBeFalsy();
+  });
+
+  it("valida strings formatadas", () => {
+    expect(cnh.isValid("026503064-61")).toBeTruthy();
+  });
+
+  it("valida string não formatadas", () => {
+    expect(cnh.isValid("02650306461")).toBeTruthy();
+    expect(cnh.isValid("12345678900")).toBeTruthy();
+  });
+
+  it("valida CNH inválida", () => {
+    expect(cnh.isValid("02650306462")).toBeFalsy();
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(cnh.validate("0265030646").reason).toBe("invalidLength");
+    expect(cnh.validate("11111111111").reason).toBe("repeatedDigits");
+    expect(cnh.validate("02650306451").reason).toBe("firstCheckDigit");
+    expect(cnh.validate("02650306462")).toMatchObject({
+      kind: "cnh",
+      reason: "secondCheckDigit",
+      expectedCheckDigits: "61",
+    });
+  });
+
+  it("desconta 2 do segundo dígito quando o primeiro resto é 10", () => {
+    // 987654321: o primeiro resto é 10 e o segundo é 0, portanto nenhuma CNH com essa base é válida
+    expect(cnh.validate("98765432100")).toMatchObject({
+      reason: "secondCheckDigit",
+      expectedCheckDigits: null,
+    });
+  });
+
+  it("gera CNH válida", () => {
+    expect(cnh.isValid(cnh.generate())).toBeTruthy();
+    expect(cnh.generate({ formatted: true })).toMatch(/^\d{9}-\d{2}$/);
+    expect(cnh.generate({ seed: 42 })).toBe(cnh.generate({ seed: 42 }));
+  });
+
+  it("interrompe a geração quando a fonte de números aleatórios só gera números inválidos", () => {
+    expect(() => cnh.generate({ random: () => 0 })).toThrow(
+      "Não foi possível gerar uma CNH válida com a fonte de números aleatórios informada"
+    );
+  });
+
+  it("retorna o número formatado", () => {
+    expect(cnh.format("02650306461")).toBe("026503064-61");
+  });
+});
@@ -0,0 +1,72 @@
+import { cnpj, document } from "../src/index";
+import { charValue, convertCnpj, validateAlphanumeric } from "../src/cnpj/alfanumeric";
+
+/**
+ * Conformidade com a especificação do CNPJ alfanumérico da Receita Federal, que entra em vigor em julho de 2026.
+ */
+describe("CNPJ alfanumérico: conformidade com a especificação da Receita Federal", () => {
+  const values: [string, number][] = [
+    ["0", 0], ["1", 1], ["2", 2], ["3", 3], ["4", 4], ["5", 5], ["6", 6], ["7", 7], ["8", 8], ["9", 9],
+    ["A", 17], ["B", 18], ["C", 19], ["D", 20], ["E", 21], ["F", 22], ["G", 23], ["H", 24], ["I", 25],
+    ["J", 26], ["K", 27], ["L", 28], ["M", 29], ["N", 30], ["O", 31], ["P", 32], ["Q", 33], ["R", 34],
+    ["S", 35], ["T", 36], ["U", 37], ["V", 38], ["W", 39], ["X", 40], ["Y", 41], ["Z", 42],
+  ];
+
+  it.each(values)("converte o caractere %s para o valor %d (ASCII - 48)", (char, value) => {
+    expect(charValue(char)).toBe(value);
+  });
+
+  it.each(["a", "z", "@", ":", " ", "Ç", "-"])("rejeita o caractere %j no cálculo", (char) => {
+    expect(() => charValue(char)).toThrow(`Caractere inválido no CNPJ: ${char}`);
+  });
+
+  it("reproduz o exemplo de cálculo publicado pela Receita Federal (12.ABC.345/01DE-35)", () => {
+    expect(convertCnpj("12ABC34501DE")).toEqual([1, 2, 17, 18, 19, 3, 4, 5, 0, 1, 20, 21]);
+    expect(cnpj.checkDigits("12ABC34501DE")).toBe("35");
+    expect(cnpj.complete("12.ABC.345/01DE", { formatted: true })).toBe("12.ABC.345/01DE-35");
+    expect(cnpj.validate("12.ABC.345/01DE-35")).toEqual({
+      valid: true,
+      value: "12ABC34501DE35",
+      kind: "cnpj-alfanumeric",
+      reason: null,
+      expectedCheckDigits: "35",
+    });
+  });
+
+  it("mantém os dígitos verificadores do CNPJ numérico", () => {
+    for (const value of cnpj.generateMany(50, { seed: 2026 })) {
+      expect(validateAlphanumeric(value)).toBe(true);
+    }
+    expect(cnpj.checkDigits("251438150001")).toBe("50");
+  });
+
+  it("aceita letras apenas na base e exige dígitos verificadores numéricos", () => {
+    expect(cnpj.validate("12ABC34501DE3A").reason).toBe("invalidCharacter");
+    expect(cnpj.validate("12ABC34501DEA5").reason).toBe("invalidCharacter");
+    expect(validateAlphanumeric("12ABC34501DE3A")).toBe(false);
+    expect(document.detect("12ABC34501DE3A")).toBeNull();
+    expect(cnpj.isValid("AB.CDE.FGH/IJKL-80")).toBe(true);
+  });
+
+  it("trata letras minúsculas como maiúsculas", () => {
+    expect(cnpj.validate("12.abc.345/01de-35")).toMatchObject({ valid: true, value: "12ABC34501DE35" });
+    expect(cnpj.checkDigits("12abc34501de")).toBe(cnpj.checkDigits("12ABC34501DE"));
+    expect(validateAlphanumeric("12abc34501de35")).toBe(true);
+  });
+
+  it("formata letras minúsculas em maiúsculas, como na validação", () => {
+    expect(cnpj.format("12abc34501de35")).toBe("12.ABC.345/01DE-35");
+    expect(cnpj.mask("12abc34501de35", { preset: "full", visible: [[0, 8]] })).toBe("12.ABC.345/****-**");
+    expect(document.format("12abc34501de35")).toBe("12.ABC.345/01DE-35");
+    expect(cnpj.isValid(cnpj.format("12abc34501de35"), { strict: true })).toBe(true);
+  });
+
+  it("não atribui valor a caracteres fora do alfabeto", () => {
+    expect(cnpj.validate("12ABÇ34501DE35").reason).toBe("invalidCharacter");
+    expect(cnpj.validate("12.abç.345/01de-35").reason).toBe("invalidCharacter");
+    expect(cnpj.validate("12ABC34501DE3５").reason).toBe("invalidCharacter");
+    expect(cnpj.validate("12.ABC.345/01DE-35@").valid).toBe(true);
+    expect(cnpj.validate("12.ABC.345/01DE-35@", { strict: true }).reason).toBe("invalidFormat");
+    expect(() => cnpj.checkDigits("12ABÇ34501DE")).toThrow();
+  });
+});
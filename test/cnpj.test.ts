@@ -1,4 +1,4 @@
-import { cnpj } from "../src/index";
+import { cnpj, createSeededRandom } from "../src/index";
 
 describe("CNPJ", () => {
   it("números de listas negras", () => {
@@ -38,6 +38,10 @@ describe("CNPJ", () => {
     expect(cnpj.isValid("12ABC34501DE35")).toBeTruthy();
   });
 
+  it("valida letras minúsculas (alfanumérico)", () => {
+    expect(cnpj.isValid("12.abc.345/01de-35")).toBeTruthy();
+  });
+
   it("string inválida (alfanumérico)", () => {
     expect(cnpj.isValid("12ABC34501DE36")).toBeFalsy();
   });
@@ -51,4 +55,203 @@ describe("CNPJ", () => {
     const generate = cnpj.generate({formatted: true});
     expect(cnpj.isValid(generate)).toBeTruthy();
   });
+
+  it("retorna o resultado detalhado da validação", () => {
+    expect(cnpj.validate("12.ABC.345/01DE-35")).toEqual({
+      valid: true,
+      value: "12ABC34501DE35",
+      kind: "cnpj-alfanumeric",
+      reason: null,
+      expectedCheckDigits: "35",
+    });
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(cnpj.validate("5455075200015").reason).toBe("invalidLength");
+    expect(cnpj.validate("12ABC34501DE3X").reason).toBe("invalidCharacter");
+    expect(cnpj.validate("11111111111111").reason).toBe("repeatedDigits");
+    expect(cnpj.validate("54550752000165").reason).toBe("firstCheckDigit");
+    expect(cnpj.validate("54550752000156")).toMatchObject({
+      kind: "cnpj-numeric",
+      reason: "secondCheckDigit",
+      expectedCheckDigits: "55",
+    });
+  });
+
+  it("separa raiz, ordem e dígitos verificadores (clássico)", () => {
+    expect(cnpj.parse("54.550.752/0001-55")).toEqual({
+      value: "54550752000155",
+      kind: "cnpj-numeric",
+      root: "54550752",
+      branch: "0001",
+      checkDigits: "55",
+      headquarters: true,
+    });
+  });
+
+  it("separa raiz, ordem e dígitos verificadores (alfanumérico)", () => {
+    expect(cnpj.parse("12.ABC.345/01DE-35")).toEqual({
+      value: "12ABC34501DE35",
+      kind: "cnpj-alfanumeric",
+      root: "12ABC345",
+      branch: "01DE",
+      checkDigits: "35",
+      headquarters: false,
+    });
+  });
+
+  it("retorna null ao separar um CNPJ inválido", () => {
+    expect(cnpj.parse("54550752000156")).toBeNull();
+    expect(cnpj.parse("")).toBeNull();
+  });
+
+  it("gera CNPJ para a raiz e ordem informadas", () => {
+    expect(cnpj.generate({ root: "25143815", headquarters: true })).toBe("25143815000150");
+    expect(cnpj.generate({ root: "12ABC345", branch: 2 })).toBe("12ABC345000269");
+    expect(cnpj.generate({ root: "12.abc.345", branch: "01DE", formatted: true })).toBe("12.ABC.345/01DE-35");
+  });
+
+  it("gera CNPJ da matriz com raiz aleatória", () => {
+    const generated = cnpj.parse(cnpj.generate({ type: "alfanumeric", headquarters: true }));
+    expect(generated?.headquarters).toBeTruthy();
+  });
+
+  it("rejeita raiz ou ordem inválidas", () => {
+    expect(() => cnpj.generate({ root: "1234567" })).toThrow("Raiz do CNPJ deve conter 8 caracteres alfanuméricos");
+    expect(() => cnpj.generate({ root: "12345678", branch: 10000 })).toThrow("Ordem do CNPJ deve conter 4 caracteres alfanuméricos");
+    expect(() => cnpj.generate({ root: "12345678", branch: 0 })).toThrow("Ordem do CNPJ não pode ser 0000");
+    expect(() => cnpj.generate({ root: "00000000", branch: "0000" })).toThrow("Ordem do CNPJ não pode ser 0000");
+  });
+
+  it("nunca gera o CNPJ com todos os dígitos zerados", () => {
+    expect(cnpj.generate({ root: "00000000", branch: 1 })).toBe("00000000000191");
+    const generated = cnpj.generate({ root: "00000000", random: () => 0 });
+    expect(generated).toBe("00000000000191");
+    expect(cnpj.isValid(generated)).toBe(true);
+  });
+
+  it("gera a matriz e as filiais de uma mesma raiz", () => {
+    expect(cnpj.generateBranches("25.143.815", 2)).toEqual([
+      "25143815000150",
+      "25143815000231",
+      "25143815000312",
+    ]);
+    expect(() => cnpj.generateBranches("25143815", -1)).toThrow();
+  });
+
+  it("gera a mesma sequência de CNPJs para a mesma semente", () => {
+    for (const type of ["numeric", "alfanumeric"] as const) {
+      expect(cnpj.generate({ type, seed: 42 })).toBe(cnpj.generate({ type, seed: 42 }));
+
+      const first = createSeededRandom("fixtures");
+      const second = createSeededRandom("fixtures");
+      const sequence = [cnpj.generate({ type, random: first }), cnpj.generate({ type, random: first })];
+      expect([cnpj.generate({ type, random: second }), cnpj.generate({ type, random: second })]).toEqual(sequence);
+      expect(sequence.every(cnpj.isValid)).toBeTruthy();
+    }
+  });
+
+  it("gera CNPJ válido com fonte criptograficamente segura", () => {
+    expect(cnpj.isValid(cnpj.generate({ type: "alfanumeric", secure: true }))).toBeTruthy();
+  });
+
+  it("gera uma sequência de CNPJs distintos numéricos e alfanuméricos", async () => {
+    const documents: string[] = [];
+    for await (const document of cnpj.generateMany(1000, { type: "mixed", alfanumericRatio: 0.3, seed: 1 })) {
+      documents.push(document);
+    }
+
+    const alfanumeric = documents.filter((document) => /[A-Z]/.test(document));
+    expect(new Set(documents).size).toBe(1000);
+    expect(documents.every(cnpj.isValid)).toBeTruthy();
+    expect(alfanumeric.length).toBeGreaterThan(200);
+    expect(alfanumeric.length).toBeLessThan(400);
+    expect(() => cnpj.generateMany(10, { type: "mixed", alfanumericRatio: 2 })).toThrow();
+  });
+
+  it("gera uma stream de CNPJs distintos", async () => {
+    let output = "";
+    for await (const chunk of cnpj.generateStream(10, { type: "alfanumeric", formatted: true })) output += chunk;
+
+    const documents = output.trim().split("\n");
+    expect(documents).toHaveLength(10);
+    expect(documents.every(cnpj.isValid)).toBeTruthy();
+  });
+
+  it("completa o CNPJ a partir da base", () => {
+    expect(cnpj.checkDigits("54.550.752/0001")).toBe("55");
+    expect(cnpj.checkDigits("12abc34501de")).toBe("35");
+    expect(cnpj.complete("545507520001")).toBe("54550752000155");
+    expect(cnpj.complete("12ABC34501DE", { formatted: true })).toBe("12.ABC.345/01DE-35");
+    expect(() => cnpj.complete("12ABC34501D")).toThrow("Base do CNPJ deve conter 12 caracteres alfanuméricos");
+    expect(() => cnpj.checkDigits("12ABC34501D@")).toThrow();
+  });
+
+  it("sugere correções para erros de digitação", () => {
+    expect(cnpj.suggest("54.505.752/0001-55")).toEqual({
+      suggestions: [
+        { value: "54550752000155", error: "transposition", position: 3 },
+        { value: "54505759000155", error: "substitution", position: 7 },
+      ],
+      position: null,
+    });
+    expect(cnpj.suggest("12ABC34501DE53").suggestions[0]).toEqual({
+      value: "12ABC34501DE35",
+      error: "transposition",
+      position: 12,
+    });
+    expect(cnpj.suggest("54550752000155")).toEqual({ suggestions: [], position: null });
+  });
+
+  it("oculta parte do CNPJ", () => {
+    expect(cnpj.mask("54.550.752/0001-55")).toBe("**.550.752/0001-**");
+    expect(cnpj.mask("12ABC34501DE35", { visible: [[0, 8]], placeholder: "#" })).toBe("12.ABC.345/####-##");
+    expect(cnpj.mask("12ABC34501DE35", { preset: "full", formatted: false })).toBe("**************");
+    expect(cnpj.anonymize("12.ABC.345/01DE-35", { placeholder: "X" })).toBe("XX.XXX.XXX/XXXX-XX");
+  });
+
+  it("formata o CNPJ à medida que é digitado", () => {
+    expect(cnpj.formatPartial("12abc3")).toMatchObject({ value: "12.ABC.3", caret: 8, kind: "cnpj" });
+    expect(cnpj.formatPartial("12ABC34501DE35")).toMatchObject({ value: "12.ABC.345/01DE-35", complete: true });
+    expect(cnpj.formatPartial("12ABC34501DEX").kind).toBeNull();
+  });
+
+  it("rejeita caracteres extras no modo estrito", () => {
+    expect(cnpj.isValid("25.143.815/0001-50!!!")).toBe(true);
+    expect(cnpj.validate("25.143.815/0001-50!!!", { strict: true }).reason).toBe("invalidFormat");
+    expect(cnpj.isValid("25143815000150", { strict: true })).toBe(true);
+    expect(cnpj.isValid("12.ABC.345/01DE-35", { strict: true })).toBe(true);
+    expect(cnpj.isValid("12ABC.34501DE35", { strict: true })).toBe(false);
+    expect(cnpj.isValid(" 12.ABC.345/01DE-35\n", { strict: true, trim: true })).toBe(true);
+    expect(cnpj.isValid("25.143.815-0001-50", { strict: true, separators: "-" })).toBe(true);
+    expect(cnpj.isValid("25_143_815_0001_50", { strict: true, separators: "_" })).toBe(true);
+  });
+
+  it("normaliza, compara e ordena CNPJs", () => {
+    expect(cnpj.normalize("12.abc.345/01de-35")).toBe("12ABC34501DE35");
+    expect(cnpj.normalize("25.143.815/0001-50")).toBe("25143815000150");
+    expect(cnpj.normalize("25.143.815/0001-40")).toBeNull();
+
+    expect(cnpj.equals("12.ABC.345/01DE-35", "12abc34501de35")).toBe(true);
+    expect(cnpj.equals("25.143.815/0001-50", "25143815000231")).toBe(false);
+    expect(cnpj.equals("25.143.815/0001-40", "25143815000140")).toBe(false);
+
+    expect(["25143815000150", "12ABC34501DE35", "12.345.678/0001-95", "12abc34501de35"].sort(cnpj.compare)).toEqual([
+      "12.345.678/0001-95",
+      "12ABC34501DE35",
+      "12abc34501de35",
+      "25143815000150",
+    ]);
+    expect(cnpj.compare("12.ABC.345/01DE-35", "12abc34501de35")).toBe(0);
+  });
+
+  it("agrupa CNPJs pela raiz", () => {
+    expect(
+      cnpj.groupByRoot(["25.143.815/0001-50", "12abc34501de35", "25143815000231", "25143815000150", "123"])
+    ).toEqual([
+      { root: "12ABC345", cnpjs: ["12ABC34501DE35"], duplicates: [] },
+      { root: "25143815", cnpjs: ["25143815000150", "25143815000231"], duplicates: ["25143815000150"] },
+    ]);
+    expect(cnpj.groupByRoot([])).toEqual([]);
+  });
 });
@@ -0,0 +1,67 @@
+import { cns } from "../src/index";
+
+describe("CNS", () => {
+  it("números de listas negras", () => {
+    expect(cns.isValid("000000000000000")).toBeFalsy();
+    expect(cns.isValid("111111111111111")).toBeFalsy();
+    expect(cns.isValid("999999999999999")).toBeFalsy();
+  });
+
+  it("rejeita valores falsos", () => {
+    expect(cns.isValid("")).toBeFalsy();
+  });
+
+  it("valida strings formatadas", () => {
+    expect(cns.isValid("100 0000 0006 0018")).toBeTruthy();
+  });
+
+  it("valida CNS definitivo", () => {
+    expect(cns.isValid("100000000060018")).toBeTruthy();
+    expect(cns.isValid("100000000060019")).toBeFalsy();
+  });
+
+  it("valida CNS provisório", () => {
+    expect(cns.isValid("700000000000005")).toBeTruthy();
+    expect(cns.isValid("702002887429583")).toBeTruthy();
+    expect(cns.isValid("702002887429584")).toBeFalsy();
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(cns.validate("10000000006001").reason).toBe("invalidLength");
+    expect(cns.validate("300000000060018").reason).toBe("invalidPrefix");
+    expect(cns.validate("100000000060019")).toMatchObject({
+      kind: "cns",
+      reason: "firstCheckDigit",
+      expectedCheckDigits: "0018",
+    });
+    expect(cns.validate("702002887429584")).toMatchObject({
+      reason: "firstCheckDigit",
+      expectedCheckDigits: "3",
+    });
+  });
+
+  it("gera CNS definitivo e provisório", () => {
+    const definitive = cns.generate();
+    const provisional = cns.generate({ type: "provisional" });
+
+    expect(cns.isValid(definitive)).toBeTruthy();
+    expect(definitive).toMatch(/^[12]/);
+    expect(cns.isValid(provisional)).toBeTruthy();
+    expect(provisional).toMatch(/^[789]/);
+    expect(cns.generate({ formatted: true })).toMatch(/^\d{3} \d{4} \d{4} \d{4}$/);
+    expect(cns.generate({ seed: 42 })).toBe(cns.generate({ seed: 42 }));
+  });
+
+  it("interrompe a geração quando a fonte de números aleatórios só gera números inválidos", () => {
+    // Gera sempre a base 72000000000000, para a qual nenhum dígito verificador torna a soma divisível por 11
+    const values = [0, 0.2, ...Array(12).fill(0)];
+    let index = 0;
+    expect(() => cns.generate({ type: "provisional", random: () => values[index++ % values.length] })).toThrow(
+      "Não foi possível gerar um CNS válido com a fonte de números aleatórios informada"
+    );
+  });
+
+  it("retorna o número formatado", () => {
+    expect(cns.format("100000000060018")).toBe("100 0000 0006 0018");
+  });
+});
@@ -1,4 +1,4 @@
-import {cpf} from "../src/index";
+import {cpf, createSeededRandom, secureRandom} from "../src/index";
 
 describe('CPF', () => {
   it('números de listas negras', () => {
@@ -42,4 +42,138 @@ describe('CPF', () => {
     const number = cpf.generate();
     expect(number).toBe(number);
   });
+
+  it("retorna o resultado detalhado da validação", () => {
+    expect(cpf.validate("295.379.955-93")).toEqual({
+      valid: true,
+      value: "29537995593",
+      kind: "cpf",
+      reason: null,
+      expectedCheckDigits: "93",
+    });
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(cpf.validate("2953799559").reason).toBe("invalidLength");
+    expect(cpf.validate("295.379.955-9A").reason).toBe("invalidCharacter");
+    expect(cpf.validate("11111111111").reason).toBe("repeatedDigits");
+    expect(cpf.validate("12345678909").reason).toBe("blocklisted");
+    expect(cpf.validate("29537995583").reason).toBe("firstCheckDigit");
+    expect(cpf.validate("29537995594")).toMatchObject({
+      reason: "secondCheckDigit",
+      expectedCheckDigits: "93",
+    });
+  });
+
+  it("gera o mesmo CPF para a mesma semente", () => {
+    expect(cpf.generate({ seed: 42 })).toBe(cpf.generate({ seed: 42 }));
+    expect(cpf.generate({ seed: "fixtures" })).toBe(cpf.generate({ seed: "fixtures" }));
+    expect(cpf.isValid(cpf.generate({ seed: 42 }))).toBeTruthy();
+  });
+
+  it("gera a mesma sequência de CPFs para a mesma fonte aleatória", () => {
+    const first = createSeededRandom(7);
+    const second = createSeededRandom(7);
+    const sequence = [cpf.generate({ random: first }), cpf.generate({ random: first })];
+
+    expect([cpf.generate({ random: second }), cpf.generate({ random: second })]).toEqual(sequence);
+    expect(sequence[0]).not.toBe(sequence[1]);
+  });
+
+  it("gera CPF válido com fonte criptograficamente segura", () => {
+    expect(cpf.isValid(cpf.generate({ secure: true }))).toBeTruthy();
+    expect(cpf.isValid(cpf.generate({ random: secureRandom }))).toBeTruthy();
+  });
+
+  it("gera uma sequência de CPFs distintos", () => {
+    const documents = Array.from(cpf.generateMany(1000, { formatted: true, seed: 1 }));
+
+    expect(documents).toHaveLength(1000);
+    expect(new Set(documents).size).toBe(1000);
+    expect(documents.every((document) => /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(document))).toBeTruthy();
+    expect(documents.every(cpf.isValid)).toBeTruthy();
+    expect(Array.from(cpf.generateMany(1000, { formatted: true, seed: 1 }))).toEqual(documents);
+    expect(() => cpf.generateMany(-1)).toThrow();
+  });
+
+  it("gera uma stream de CPFs distintos", async () => {
+    let output = "";
+    for await (const chunk of cpf.generateStream(10)) output += chunk;
+
+    const documents = output.trim().split("\n");
+    expect(documents).toHaveLength(10);
+    expect(documents.every(cpf.isValid)).toBeTruthy();
+  });
+
+  it("completa o CPF a partir da base", () => {
+    expect(cpf.checkDigits("295.379.955")).toBe("93");
+    expect(cpf.complete("295379955")).toBe("29537995593");
+    expect(cpf.complete("295379955", { formatted: true })).toBe("295.379.955-93");
+    expect(() => cpf.complete("29537995")).toThrow("Base do CPF deve conter 9 dígitos");
+    expect(() => cpf.checkDigits("29537995A")).toThrow("Base do CPF deve conter 9 dígitos");
+  });
+
+  it("sugere correções para erros de digitação", () => {
+    expect(cpf.suggest("295.379.955-39")).toEqual({
+      suggestions: [{ value: "29537995593", error: "transposition", position: 9 }],
+      position: 9,
+    });
+    expect(cpf.suggest("29537995693")).toEqual({
+      suggestions: [{ value: "29537995593", error: "substitution", position: 8 }],
+      position: 8,
+    });
+    expect(cpf.suggest("29537995593")).toEqual({ suggestions: [], position: null });
+    expect(cpf.suggest("2953799559")).toEqual({ suggestions: [], position: null });
+  });
+
+  it("oculta parte do CPF", () => {
+    expect(cpf.mask("295.379.955-93")).toBe("***.379.955-**");
+    expect(cpf.mask("29537995593", { visible: [[0, 3]], placeholder: "#" })).toBe("295.###.###-##");
+    expect(cpf.mask("29537995593", { formatted: false })).toBe("***379955**");
+    expect(cpf.mask("2953799559")).toBe("**********");
+    expect(cpf.anonymize("295.379.955-93")).toBe("***.***.***-**");
+  });
+
+  it("formata o CPF à medida que é digitado", () => {
+    expect(cpf.formatPartial("2953799")).toMatchObject({ value: "295.379.9", caret: 9, kind: "cpf" });
+    expect(cpf.formatPartial("29537995593")).toMatchObject({ value: "295.379.955-93", complete: true });
+    expect(cpf.formatPartial("295379955930").kind).toBeNull();
+  });
+
+  it("rejeita caracteres extras no modo estrito", () => {
+    expect(cpf.isValid("abc295x379y955z93")).toBe(true);
+    expect(cpf.isValid("abc295x379y955z93", { strict: true })).toBe(false);
+    expect(cpf.validate("295.379.955-93!!!", { strict: true })).toEqual({
+      valid: false,
+      value: "29537995593",
+      kind: "cpf",
+      reason: "invalidFormat",
+      expectedCheckDigits: null,
+    });
+    expect(cpf.isValid("29537995593", { strict: true })).toBe(true);
+    expect(cpf.isValid("295.379.955-93", { strict: true })).toBe(true);
+    expect(cpf.isValid("295.379955-93", { strict: true })).toBe(false);
+    expect(cpf.validate("295.379.955-94", { strict: true }).reason).toBe("secondCheckDigit");
+  });
+
+  it("aceita espaços e separadores alternativos no modo estrito quando configurado", () => {
+    expect(cpf.isValid(" 295.379.955-93 ", { strict: true })).toBe(false);
+    expect(cpf.isValid(" 295.379.955-93 ", { strict: true, trim: true })).toBe(true);
+    expect(cpf.isValid("295 379 955 93", { strict: true, separators: " " })).toBe(true);
+    expect(cpf.isValid("295-379-955.93", { strict: true, separators: ".-" })).toBe(true);
+    expect(cpf.isValid("295 379 955 93", { strict: true })).toBe(false);
+  });
+
+  it("normaliza, compara e ordena CPFs", () => {
+    expect(cpf.normalize("295.379.955-93")).toBe("29537995593");
+    expect(cpf.normalize("295.379.955-94")).toBeNull();
+    expect(cpf.equals("295.379.955-93", "29537995593")).toBe(true);
+    expect(cpf.equals("295.379.955-93", "072.087.660-53")).toBe(false);
+    expect(cpf.equals("295.379.955-94", "29537995594")).toBe(false);
+    expect(["29537995593", "072.087.660-53", "211.560.323-00"].sort(cpf.compare)).toEqual([
+      "072.087.660-53",
+      "211.560.323-00",
+      "29537995593",
+    ]);
+  });
 });
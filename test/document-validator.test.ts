@@ -1,6 +1,6 @@
 import 'jest';
 import _joi from 'joi';
-import documentValidator, { cpf, cnpj } from "../src";
+import documentValidator, { cpf, cnpj, pis, tituloEleitor, cnh, renavam, cns } from "../src";
 
 const Joi = _joi.extend(documentValidator);
 
@@ -30,10 +30,10 @@ describe('Teste CPF', ()=>{
       
       expect(joiError.details).toEqual([
         {
-          message: "CPF inválido",
+          message: "CPF inválido: primeiro dígito verificador não confere",
           path: [],
-          type: "document.cpf",
-          context: { label: "value", value: "01283191283" },
+          type: "document.cpf.firstCheckDigit",
+          context: { kind: "cpf", reason: "firstCheckDigit", document: "CPF", label: "value", value: "01283191283" },
         },
       ]);
     }
@@ -48,14 +48,24 @@ describe('Teste CPF', ()=>{
 
       expect(joiError.details).toEqual([
         {
-          message: "CPF inválido",
+          message: "CPF inválido: primeiro dígito verificador não confere",
           path: [],
-          type: "document.cpf",
-          context: { label: "value", value: "012.831.912-83" },
+          type: "document.cpf.firstCheckDigit",
+          context: { kind: "cpf", reason: "firstCheckDigit", document: "CPF", label: "value", value: "012.831.912-83" },
         },
       ]);
     }
   });
+
+  test("deve informar o motivo da falha no CPF", () => {
+    expect(cpfSchema.validate("123").error?.details[0].type).toBe("document.cpf.invalidLength");
+    expect(cpfSchema.validate("111.111.111-11").error?.details[0].type).toBe("document.cpf.repeatedDigits");
+    expect(cpfSchema.validate("123.456.789-09").error?.details[0].type).toBe("document.cpf.blocklisted");
+    expect(cpfSchema.validate("295.379.955-94").error?.details[0]).toMatchObject({
+      message: "CPF inválido: segundo dígito verificador não confere",
+      type: "document.cpf.secondCheckDigit",
+    });
+  });
 })
 
 describe("Test CNPJ", () => {
@@ -84,10 +94,10 @@ describe("Test CNPJ", () => {
       const joiError = error as _joi.ValidationError;
       expect(joiError.details).toEqual([
         {
-          message: "CNPJ inválido",
+          message: "CNPJ inválido: primeiro dígito verificador não confere",
           path: [],
-          type: "document.cnpj",
-          context: { label: "value", value: "01283191283126" },
+          type: "document.cnpj.firstCheckDigit",
+          context: { kind: "cnpj-numeric", reason: "firstCheckDigit", document: "CNPJ", label: "value", value: "01283191283126" },
         },
       ]);
     }
@@ -101,10 +111,10 @@ describe("Test CNPJ", () => {
       const joiError = error as _joi.ValidationError;
       expect(joiError.details).toEqual([
         {
-          message: "CNPJ inválido",
+          message: "CNPJ inválido: primeiro dígito verificador não confere",
           path: [],
-          type: "document.cnpj",
-          context: { label: "value", value: "01.283.191/2831-26" },
+          type: "document.cnpj.firstCheckDigit",
+          context: { kind: "cnpj-numeric", reason: "firstCheckDigit", document: "CNPJ", label: "value", value: "01.283.191/2831-26" },
         },
       ]);
     }
@@ -131,10 +141,10 @@ describe("Test CNPJ", () => {
       const joiError = error as _joi.ValidationError;
       expect(joiError.details).toEqual([
         {
-          message: "CNPJ inválido",
+          message: "CNPJ inválido: primeiro dígito verificador não confere",
           path: [],
-          type: "document.cnpj",
-          context: { label: "value", value: "01283191283126" },
+          type: "document.cnpj.firstCheckDigit",
+          context: { kind: "cnpj-numeric", reason: "firstCheckDigit", document: "CNPJ", label: "value", value: "01283191283126" },
         },
       ]);
     }
@@ -148,13 +158,358 @@ describe("Test CNPJ", () => {
       const joiError = error as _joi.ValidationError;
       expect(joiError.details).toEqual([
         {
-          message: "CNPJ inválido",
+          message: "CNPJ inválido: primeiro dígito verificador não confere",
           path: [],
-          type: "document.cnpj",
-          context: { label: "value", value: "01.283.191/2831-26" },
+          type: "document.cnpj.firstCheckDigit",
+          context: { kind: "cnpj-numeric", reason: "firstCheckDigit", document: "CNPJ", label: "value", value: "01.283.191/2831-26" },
         },
       ]);
     }
   });
-  
-});
\ No newline at end of file
+
+
+  test("deve informar o motivo da falha no CNPJ", () => {
+    expect(cnpjSchema.validate("1234").error?.details[0].type).toBe("document.cnpj.invalidLength");
+    expect(cnpjSchema.validate("12.ABC.345/01DE-3X").error?.details[0].type).toBe("document.cnpj.invalidCharacter");
+    expect(cnpjSchema.validate("11.111.111/1111-11").error?.details[0].type).toBe("document.cnpj.repeatedDigits");
+    expect(cnpjSchema.validate("12.ABC.345/01DE-36").error?.details[0]).toMatchObject({
+      message: "CNPJ inválido: segundo dígito verificador não confere",
+      type: "document.cnpj.secondCheckDigit",
+    });
+  });
+});
+
+describe("Teste CPF ou CNPJ", () => {
+  const documentSchema = Joi.document().cpfOrCnpj().required();
+
+  test("deve ser capaz de validar CPF e CNPJ", async () => {
+    const validCPF = cpf.generate({ formatted: true });
+    const validCNPJ = cnpj.generate({ type: "alfanumeric" });
+
+    expect(await documentSchema.validateAsync(validCPF)).toBe(validCPF);
+    expect(await documentSchema.validateAsync(validCNPJ)).toBe(validCNPJ);
+  });
+
+  test("deve informar o tipo identificado e o motivo da falha", () => {
+    expect(documentSchema.validate("25.143.815/0001-40").error?.details).toEqual([
+      {
+        message: "CNPJ inválido: primeiro dígito verificador não confere",
+        path: [],
+        type: "document.cpfOrCnpj.firstCheckDigit",
+        context: {
+          kind: "cnpj-numeric",
+          reason: "firstCheckDigit",
+          document: "CNPJ",
+          label: "value",
+          value: "25.143.815/0001-40",
+        },
+      },
+    ]);
+    expect(documentSchema.validate("295.379.955-94").error?.details[0].message).toBe(
+      "CPF inválido: segundo dígito verificador não confere"
+    );
+    expect(documentSchema.validate("123").error?.details[0].type).toBe("document.cpfOrCnpj.invalidLength");
+  });
+});
+
+describe("Teste opções de formatação", () => {
+  test("deve converter o documento para a forma exigida", () => {
+    expect(Joi.document().cpf({ output: "clean" }).validate("295.379.955-93").value).toBe("29537995593");
+    expect(Joi.document().cpf({ output: "formatted" }).validate("29537995593").value).toBe("295.379.955-93");
+    expect(Joi.document().cnpj({ output: "formatted", uppercase: true }).validate("12abc34501de35").value).toBe(
+      "12.ABC.345/01DE-35"
+    );
+    expect(Joi.document().cpfOrCnpj({ output: "clean" }).validate("12.ABC.345/01DE-35").value).toBe("12ABC34501DE35");
+  });
+
+  test("deve retornar o CNPJ com letras maiúsculas em qualquer forma de saída", () => {
+    expect(Joi.document().cnpj({ output: "clean" }).validate("12.abc.345/01de-35").value).toBe("12ABC34501DE35");
+    expect(Joi.document().cnpj({ output: "formatted" }).validate("12abc34501de35").value).toBe("12.ABC.345/01DE-35");
+    expect(Joi.document().cpfOrCnpj({ output: "clean" }).validate("12.abc.345/01de-35").value).toBe("12ABC34501DE35");
+    expect(Joi.document().cnpj().validate("12abc34501de35").value).toBe("12abc34501de35");
+    expect(Joi.document().cnpj({ input: "unmasked" }).validate("12abc34501de35").error).toBeUndefined();
+    expect(Joi.document().cnpj({ input: "masked" }).validate("12.abc.345/01de-35").error).toBeUndefined();
+    expect(
+      Joi.document().cnpj({ output: "clean" }).validate("12abc34501de35", { convert: false }).error?.details[0].type
+    ).toBe("document.cnpj.lowercase");
+  });
+
+  test("deve exigir o documento formatado ou sem formatação", () => {
+    expect(Joi.document().cpf({ input: "masked" }).validate("29537995593").error?.details[0]).toMatchObject({
+      message: "CPF deve estar no formato XXX.XXX.XXX-XX",
+      type: "document.cpf.unmasked",
+    });
+    expect(Joi.document().cnpj({ input: "unmasked" }).validate("54.550.752/0001-55").error?.details[0]).toMatchObject({
+      message: "CNPJ não deve conter formatação",
+      type: "document.cnpj.masked",
+    });
+    expect(Joi.document().cpf({ input: "masked" }).validate("295.379.955-93").error).toBeUndefined();
+  });
+
+  test("não deve converter o documento quando convert está desativado", () => {
+    const options = { convert: false };
+
+    expect(Joi.document().cpf({ output: "clean" }).validate("295.379.955-93", options).error?.details[0].type).toBe(
+      "document.cpf.masked"
+    );
+    expect(Joi.document().cnpj({ uppercase: true }).validate("12abc34501de35", options).error?.details[0].type).toBe(
+      "document.cnpj.lowercase"
+    );
+    expect(Joi.document().cpf({ output: "clean" }).validate("29537995593", options).value).toBe("29537995593");
+  });
+});
+
+describe("Teste PIS", () => {
+  const pisSchema = Joi.document().pis().required();
+
+  test("deve ser capaz de validar o PIS", async () => {
+    const validPIS = pis.generate({ formatted: true });
+    expect(await pisSchema.validateAsync(validPIS)).toBe(validPIS);
+  });
+
+  test("deve falhar no PIS inválido", () => {
+    expect(pisSchema.validate("120.56412.54-7").error?.details).toEqual([
+      {
+        message: "PIS inválido: dígito verificador não confere",
+        path: [],
+        type: "document.pis.firstCheckDigit",
+        context: { kind: "pis", reason: "firstCheckDigit", document: "PIS", label: "value", value: "120.56412.54-7" },
+      },
+    ]);
+  });
+
+  test("deve converter o PIS para a forma exigida", () => {
+    expect(Joi.document().pis({ output: "formatted" }).validate("12056412545").value).toBe("120.56412.54-5");
+  });
+});
+
+describe("Teste título de eleitor", () => {
+  const tituloSchema = Joi.document().tituloEleitor().required();
+
+  test("deve ser capaz de validar o título de eleitor", async () => {
+    const validTitulo = tituloEleitor.generate({ uf: "SP", formatted: true });
+    expect(await tituloSchema.validateAsync(validTitulo)).toBe(validTitulo);
+  });
+
+  test("deve informar o motivo da falha", () => {
+    expect(tituloSchema.validate("1023 8501 2971").error?.details[0]).toMatchObject({
+      message: "Título de eleitor com código de UF inválido",
+      type: "document.tituloEleitor.invalidState",
+    });
+  });
+});
+
+describe("Teste inscrição estadual", () => {
+  const schema = Joi.object({
+    uf: Joi.string().required(),
+    ie: Joi.document().inscricaoEstadual(Joi.ref("uf")).required(),
+  });
+
+  test("deve validar a inscrição estadual de acordo com a UF informada", async () => {
+    const value = { uf: "SP", ie: "110.042.490.114" };
+    expect(await schema.validateAsync(value)).toEqual(value);
+    expect(schema.validate({ uf: "RJ", ie: "110.042.490.114" }).error?.details[0]).toMatchObject({
+      message: "Inscrição estadual inválida para RJ",
+      type: "document.inscricaoEstadual.invalid",
+    });
+  });
+
+  test("deve rejeitar UF inválida", () => {
+    expect(schema.validate({ uf: "XX", ie: "110.042.490.114" }).error?.details[0].type).toBe(
+      "document.inscricaoEstadual.invalidState"
+    );
+  });
+
+  test("deve aceitar o valor ISENTO, a menos que seja desativado", () => {
+    expect(schema.validate({ uf: "SP", ie: "ISENTO" }).error).toBeUndefined();
+
+    const strictSchema = Joi.document().inscricaoEstadual("SP", { allowExempt: false });
+    expect(strictSchema.validate("ISENTO").error?.details[0].type).toBe("document.inscricaoEstadual.exempt");
+  });
+
+  test("deve aplicar as opções de formatação", () => {
+    expect(Joi.document().inscricaoEstadual("SP", { output: "formatted" }).validate("110042490114").value).toBe(
+      "110.042.490.114"
+    );
+    expect(Joi.document().inscricaoEstadual("MG", { output: "clean" }).validate("062.307.904/0081").value).toBe(
+      "0623079040081"
+    );
+  });
+});
+
+describe("Teste CNH", () => {
+  const cnhSchema = Joi.document().cnh().required();
+
+  test("deve ser capaz de validar a CNH", async () => {
+    const validCNH = cnh.generate({ formatted: true });
+    expect(await cnhSchema.validateAsync(validCNH)).toBe(validCNH);
+  });
+
+  test("deve informar o motivo da falha", () => {
+    expect(cnhSchema.validate("02650306462").error?.details[0]).toMatchObject({
+      message: "CNH inválida: segundo dígito verificador não confere",
+      type: "document.cnh.secondCheckDigit",
+    });
+  });
+
+  test("deve converter a CNH para a forma exigida", () => {
+    expect(Joi.document().cnh({ output: "clean" }).validate("026503064-61").value).toBe("02650306461");
+  });
+});
+
+describe("Teste RENAVAM", () => {
+  const renavamSchema = Joi.document().renavam().required();
+
+  test("deve ser capaz de validar o RENAVAM", async () => {
+    const validRENAVAM = renavam.generate();
+    expect(await renavamSchema.validateAsync(validRENAVAM)).toBe(validRENAVAM);
+  });
+
+  test("deve informar o motivo da falha", () => {
+    expect(renavamSchema.validate("00639884963").error?.details[0]).toMatchObject({
+      message: "RENAVAM inválido: dígito verificador não confere",
+      type: "document.renavam.firstCheckDigit",
+    });
+  });
+
+  test("deve converter o RENAVAM para a forma exigida", () => {
+    expect(Joi.document().renavam({ output: "formatted" }).validate("00639884962").value).toBe("0063988496-2");
+  });
+});
+
+describe("Teste CNS", () => {
+  const cnsSchema = Joi.document().cns().required();
+
+  test("deve ser capaz de validar o CNS definitivo e provisório", async () => {
+    for (const type of ["definitive", "provisional"] as const) {
+      const validCNS = cns.generate({ type, formatted: true });
+      expect(await cnsSchema.validateAsync(validCNS)).toBe(validCNS);
+    }
+  });
+
+  test("deve informar o motivo da falha", () => {
+    expect(cnsSchema.validate("300000000060018").error?.details[0]).toMatchObject({
+      message: "CNS deve começar com 1, 2, 7, 8 ou 9",
+      type: "document.cns.invalidPrefix",
+    });
+  });
+});
+
+describe("Teste chave Pix", () => {
+  const pixSchema = Joi.document().pixKey().required();
+
+  test("deve ser capaz de validar chaves de todos os tipos", async () => {
+    for (const key of ["295.379.955-93", "12ABC34501DE35", "fulano@exemplo.com", "+5511912345678"]) {
+      expect(await pixSchema.validateAsync(key)).toBe(key);
+    }
+  });
+
+  test("deve falhar na chave inválida", () => {
+    expect(pixSchema.validate("295.379.955-94").error?.details[0]).toMatchObject({
+      message: "Chave Pix inválida",
+      type: "document.pixKey.invalid",
+      context: expect.objectContaining({ type: "cpf" }),
+    });
+  });
+
+  test("deve restringir os tipos de chave aceitos", () => {
+    const schema = Joi.document().pixKey({ types: ["cpf", "cnpj"] });
+    expect(schema.validate("fulano@exemplo.com").error?.details[0]).toMatchObject({
+      message: "Chave Pix do tipo email não permitida",
+      type: "document.pixKey.type",
+    });
+    expect(schema.validate("29537995593").error).toBeUndefined();
+  });
+
+  test("deve converter a chave para a forma canônica", () => {
+    const schema = Joi.document().pixKey({ normalize: true });
+    expect(schema.validate("+55 (11) 91234-5678").value).toBe("+5511912345678");
+    expect(schema.validate("Fulano@Exemplo.com", { convert: false }).error?.details[0].type).toBe(
+      "document.pixKey.normalized"
+    );
+  });
+});
+
+describe("Teste modo estrito", () => {
+  test("deve rejeitar caracteres extras em torno do documento", () => {
+    expect(Joi.document().cpf().validate("abc295x379y955z93").error).toBeUndefined();
+    expect(Joi.document().cpf({ strict: true }).validate("abc295x379y955z93").error?.details[0]).toMatchObject({
+      message: "CPF deve estar sem formatação ou no formato XXX.XXX.XXX-XX",
+      type: "document.cpf.invalidFormat",
+    });
+    expect(Joi.document().cnpj({ strict: true }).validate("25.143.815/0001-50!!!").error?.details[0].type).toBe(
+      "document.cnpj.invalidFormat"
+    );
+    expect(Joi.document().cpfOrCnpj({ strict: true }).validate("25.143.815/0001-50.").error?.details[0].message).toBe(
+      "CNPJ deve estar sem formatação ou com a máscara exata"
+    );
+  });
+
+  test("deve aceitar espaços e separadores alternativos quando configurado", () => {
+    expect(Joi.document().cpf({ strict: true, trim: true }).validate(" 295.379.955-93 ").error).toBeUndefined();
+    expect(
+      Joi.document().cpfOrCnpj({ strict: true, separators: " ", output: "clean" }).validate("295 379 955 93").value
+    ).toBe("29537995593");
+  });
+});
+
+describe("Teste opções da extensão", () => {
+  test("deve exibir as mensagens no idioma escolhido", () => {
+    const english = _joi.extend(documentValidator({ locale: "en" }));
+    const spanish = _joi.extend(documentValidator({ locale: "es" }));
+
+    expect(english.document().cpf().validate("295.379.955-94").error?.message).toBe(
+      "Invalid CPF: second check digit does not match"
+    );
+    expect(english.document().cpfOrCnpj().validate("25.143.815/0001-40").error?.message).toBe(
+      "Invalid CNPJ: first check digit does not match"
+    );
+    expect(spanish.document().cpfOrCnpj().validate("123").error?.message).toBe(
+      "El CPF o CNPJ debe contener 11 o 14 caracteres"
+    );
+    expect(spanish.document().cpf().required().validate(undefined).error?.message).toBe('"value" es obligatorio');
+  });
+
+  test("deve substituir as mensagens informadas", () => {
+    const custom = _joi.extend(
+      documentValidator({
+        messages: {
+          "document.cpf.secondCheckDigit": "{{#document}} recusado ({{#kind}}: {{#reason}})",
+          "string.empty": "Informe o documento",
+        },
+      })
+    );
+
+    expect(custom.document().cpf().validate("295.379.955-94").error?.message).toBe(
+      "CPF recusado (cpf: secondCheckDigit)"
+    );
+    expect(custom.document().cpf().validate("295.379.955-00").error?.message).toBe(
+      "CPF inválido: primeiro dígito verificador não confere"
+    );
+    expect(custom.document().cpf().validate("").error?.message).toBe("Informe o documento");
+  });
+
+  test("deve permitir ou rejeitar o valor null", () => {
+    const strict = _joi.extend(documentValidator({ allowNull: false }));
+
+    expect(Joi.document().cpf().validate(null).error).toBeUndefined();
+    expect(_joi.extend(documentValidator()).document().cpf().validate(null).error).toBeUndefined();
+    expect(strict.document().cpf().validate(null).error?.details[0]).toMatchObject({
+      type: "document.null",
+      message: '"value" não pode ser nulo',
+    });
+  });
+
+  test("deve traduzir a mensagem de null quando allowNull é falso", () => {
+    const english = _joi.extend(documentValidator({ locale: "en", allowNull: false }));
+    const custom = _joi.extend(documentValidator({ allowNull: false, messages: { "document.null": "Informe o documento" } }));
+
+    expect(english.document().cnpj().validate(null).error?.details[0].message).toBe('"value" must not be null');
+    expect(custom.document().cpf().validate(null).error?.details[0].message).toBe("Informe o documento");
+    expect(english.document().cpf().validate(null, { convert: false }).error?.details[0].message).toBe(
+      '"value" must be a string'
+    );
+    expect(english.document().cpf().validate(123).error?.details[0].message).toBe('"value" must be a string');
+  });
+});
+
@@ -0,0 +1,80 @@
+import { document } from "../src/index";
+
+describe("Documento", () => {
+  it("identifica o tipo do documento", () => {
+    expect(document.detect("295.379.955-93")).toBe("cpf");
+    expect(document.detect("54.550.752/0001-55")).toBe("cnpj-numeric");
+    expect(document.detect("12.ABC.345/01DE-35")).toBe("cnpj-alfanumeric");
+    expect(document.detect("1234")).toBeNull();
+    expect(document.detect("295.379.955-9A")).toBeNull();
+  });
+
+  it("valida CPF e CNPJ", () => {
+    expect(document.isValid("295.379.955-93")).toBeTruthy();
+    expect(document.isValid("54550752000155")).toBeTruthy();
+    expect(document.isValid("12ABC34501DE35")).toBeTruthy();
+    expect(document.isValid("29537995594")).toBeFalsy();
+    expect(document.isValid("12ABC34501DE36")).toBeFalsy();
+    expect(document.isValid("")).toBeFalsy();
+  });
+
+  it("informa o tipo e o motivo da falha na validação", () => {
+    expect(document.validate("29537995594")).toMatchObject({ kind: "cpf", reason: "secondCheckDigit" });
+    expect(document.validate("11111111111111")).toMatchObject({ kind: "cnpj-numeric", reason: "repeatedDigits" });
+    expect(document.validate("123456")).toMatchObject({ kind: null, reason: "invalidLength" });
+  });
+
+  it("formata de acordo com o tipo identificado", () => {
+    expect(document.format("29537995593")).toBe("295.379.955-93");
+    expect(document.format("12ABC34501DE35")).toBe("12.ABC.345/01DE-35");
+    expect(document.format("1234")).toBe("1234");
+  });
+
+  it("remove a formatação", () => {
+    expect(document.clean("295.379.955-93")).toBe("29537995593");
+    expect(document.clean("12.ABC.345/01DE-35")).toBe("12ABC34501DE35");
+  });
+
+  it("identifica o tipo com a mesma limpeza da validação", () => {
+    expect(document.detect("25.143.815/0001-50@")).toBe("cnpj-numeric");
+    expect(document.validate("25.143.815/0001-50@").valid).toBe(true);
+    expect(document.detect("12ABÇ34501DE35")).toBeNull();
+    expect(document.validate("12ABÇ34501DE35").reason).toBe("invalidCharacter");
+    expect(document.detect("295.379.955-9Ç")).toBeNull();
+    expect(document.validate("295.379.955-9Ç").reason).toBe("invalidCharacter");
+  });
+
+  it("formata o documento à medida que é digitado", () => {
+    expect(document.formatPartial("1234")).toEqual({
+      value: "123.4",
+      caret: 5,
+      kind: "cpf",
+      possible: { cpf: true, cnpj: true },
+      complete: false,
+    });
+    expect(document.formatPartial("12.ab3.")).toMatchObject({ value: "12.AB3", caret: 6, kind: "cnpj" });
+    expect(document.formatPartial("123456789012")).toMatchObject({ value: "12.345.678/9012", kind: "cnpj" });
+    expect(document.formatPartial("29537995593")).toMatchObject({ value: "295.379.955-93", complete: true });
+  });
+
+  it("troca para a máscara de CNPJ quando o CPF completo é inválido", () => {
+    expect(document.formatPartial("29537995594")).toMatchObject({
+      value: "29.537.995/594",
+      kind: "cnpj",
+      possible: { cpf: false, cnpj: true },
+    });
+  });
+
+  it("recalcula a posição do cursor", () => {
+    expect(document.formatPartial("123.4567", 5).caret).toBe(5);
+    expect(document.formatPartial("1234567", 3).caret).toBe(3);
+    expect(document.formatPartial("1234567", 0).caret).toBe(0);
+  });
+
+  it("informa quando o valor não pode ser um documento", () => {
+    expect(document.formatPartial("123456789012345")).toMatchObject({
+      kind: null,
+      possible: { cpf: false, cnpj: false },
+    });
+  });
+});
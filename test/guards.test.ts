@@ -0,0 +1,93 @@
+import "jest";
+import {
+  AlphanumericCNPJ,
+  CNPJ,
+  CPF,
+  FormattedCNPJ,
+  FormattedCPF,
+  InvalidDocumentError,
+  NumericCNPJ,
+  assertCNPJ,
+  assertCPF,
+  cnpj,
+  cpf,
+  document,
+  isAlphanumericCNPJ,
+  isNumericCNPJ,
+  parseCNPJ,
+  parseCPF,
+} from "../src";
+
+describe("Tipos e validações com tipos", () => {
+  it("restringe o tipo com isValid", () => {
+    const value: string = "295.379.955-93";
+    // @ts-expect-error: uma string qualquer não é um CPF
+    const unchecked: CPF = value;
+
+    expect(unchecked).toBe(value);
+    if (!cpf.isValid(value)) throw new Error("CPF deveria ser válido");
+    const checked: CPF = value;
+    expect(checked).toBe(value);
+
+    const documents: string[] = ["25.143.815/0001-50", "12ABC34501DE35"];
+    const cnpjs: CNPJ[] = documents.filter((value) => cnpj.isValid(value));
+    expect(cnpjs).toHaveLength(2);
+    expect(documents.filter(document.isValid)).toHaveLength(2);
+  });
+
+  it("retorna tipos marcados na geração e na formatação", () => {
+    const generated: CPF = cpf.generate();
+    const formatted: FormattedCPF = cpf.generate({ formatted: true });
+    const generatedCNPJ: CNPJ = cnpj.generate({ type: "alfanumeric" });
+    const formattedCNPJ: FormattedCNPJ = cnpj.format(generatedCNPJ);
+
+    expect(cpf.isValid(generated)).toBe(true);
+    expect(formatted).toMatch(/^\d{3}\.\d{3}\.\d{3}-\d{2}$/);
+    expect(cpf.format(parseCPF("295 379 955 93"))).toBe("295.379.955-93");
+    expect(cnpj.format(parseCNPJ("25.143.815/0001-50"))).toBe("25.143.815/0001-50");
+    expect(formattedCNPJ).toMatch(/^[A-Z0-9]{2}\.[A-Z0-9]{3}\.[A-Z0-9]{3}\/[A-Z0-9]{4}-\d{2}$/);
+  });
+
+  it("retorna o documento sem formatação com parse", () => {
+    expect(parseCPF("295.379.955-93")).toBe("29537995593");
+    expect(parseCNPJ("12.ABC.345/01DE-35")).toBe("12ABC34501DE35");
+  });
+
+  it("lança um erro com o motivo da falha", () => {
+    expect(() => parseCPF("295.379.955-94")).toThrow(InvalidDocumentError);
+
+    try {
+      assertCNPJ("25.143.815/0001-40");
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidDocumentError);
+      expect(error).toMatchObject({
+        name: "InvalidDocumentError",
+        message: "CNPJ inválido: primeiro dígito verificador não confere",
+        code: "document.cnpj.firstCheckDigit",
+        reason: "firstCheckDigit",
+        kind: "cnpj-numeric",
+        value: "25143815000140",
+        expectedCheckDigits: "50",
+      });
+    }
+    expect.assertions(3);
+  });
+
+  it("restringe o tipo com assert", () => {
+    const value: string = "295.379.955-93";
+    assertCPF(value);
+    const checked: CPF = value;
+
+    expect(checked).toBe("295.379.955-93");
+    expect(() => assertCPF("295.379.955-93!", { strict: true })).toThrow("CPF deve estar sem formatação");
+  });
+
+  it("diferencia CNPJ numérico e alfanumérico", () => {
+    const values = ["25.143.815/0001-50", "12.ABC.345/01DE-35", "12.ABC.345/01DE-36"];
+    const numeric: NumericCNPJ[] = values.filter(isNumericCNPJ);
+    const alphanumeric: AlphanumericCNPJ[] = values.filter(isAlphanumericCNPJ);
+
+    expect(numeric).toEqual(["25.143.815/0001-50"]);
+    expect(alphanumeric).toEqual(["12.ABC.345/01DE-35"]);
+  });
+});
@@ -0,0 +1,117 @@
+import { inscricaoEstadual, UF } from "../src/index";
+
+describe("Inscrição estadual", () => {
+  // Exemplos das especificações do SINTEGRA para cada UF
+  const examples: Record<string, string[]> = {
+    AC: ["01.004.823/001-12"],
+    AL: ["240000048"],
+    AM: ["99.999.999-0"],
+    AP: ["030123459"],
+    BA: ["123456-63", "1000003-06"],
+    CE: ["06000001-5"],
+    DF: ["07.300001.001-09"],
+    ES: ["999.999.99-0"],
+    GO: ["10.987.654-7"],
+    MA: ["120000385"],
+    MG: ["062.307.904/0081"],
+    MS: ["280000006"],
+    MT: ["0013000001-9"],
+    PA: ["15-999999-5"],
+    PB: ["06000001-5"],
+    PE: ["0321418-40"],
+    PI: ["193016567"],
+    PR: ["12345678-50"],
+    RJ: ["99.999.99-3"],
+    RN: ["20.040.040-1", "20.0.040.040-0"],
+    RO: ["0000000062521-3"],
+    RR: ["24006628-1"],
+    RS: ["224/3658792"],
+    SC: ["251.040.852"],
+    SE: ["27123456-3"],
+    SP: ["110.042.490.114", "P-01100424.3/002"],
+    TO: ["29.01.022783-6", "290227836"],
+  };
+
+  it("valida inscrições estaduais de todas as UFs", () => {
+    expect(Object.keys(examples)).toHaveLength(27);
+    for (const [uf, values] of Object.entries(examples)) {
+      for (const value of values) {
+        expect(inscricaoEstadual.isValid(uf, value)).toBeTruthy();
+        expect(inscricaoEstadual.isValid(uf, value.replace(/\W/g, ""))).toBeTruthy();
+      }
+    }
+  });
+
+  it("valida inscrição estadual inválida", () => {
+    expect(inscricaoEstadual.isValid("SP", "110.042.490.115")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("SP", "110.042.491.114")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("MG", "062.307.904/0091")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("SP", "11004249011")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("SP", "")).toBeFalsy();
+  });
+
+  it("valida MT e RO com os pesos cíclicos de 2 a 9", () => {
+    expect(inscricaoEstadual.isValid("MT", "1324567890-7")).toBeTruthy();
+    expect(inscricaoEstadual.isValid("MT", "9876543210-3")).toBeTruthy();
+    expect(inscricaoEstadual.isValid("MT", "1324567890-8")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("MT", "9876543210-4")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("RO", "1234567890123-1")).toBeTruthy();
+    expect(inscricaoEstadual.isValid("RO", "9876543210987-4")).toBeTruthy();
+    expect(inscricaoEstadual.isValid("RO", "1234567890123-2")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("RO", "9876543210987-5")).toBeFalsy();
+  });
+
+  it("gera inscrições de MT e RO de acordo com os pesos oficiais", () => {
+    // Implementação independente do cálculo do SINTEGRA
+    const checkDigit = (base: string, weights: number[]) =>
+      weights.reduce((acc, weight, index) => acc + Number(base[index]) * weight, 0) % 11;
+    for (let i = 0; i < 50; i++) {
+      const mt = inscricaoEstadual.generate("MT");
+      const mtRest = checkDigit(mt, [3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+      expect(Number(mt[10])).toBe(mtRest < 2 ? 0 : 11 - mtRest);
+
+      const ro = inscricaoEstadual.generate("RO");
+      const roDigit = 11 - checkDigit(ro, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+      expect(Number(ro[13])).toBe(roDigit >= 10 ? roDigit - 10 : roDigit);
+    }
+  });
+
+  it("rejeita inscrições de outras UFs", () => {
+    expect(inscricaoEstadual.isValid("RJ", "110.042.490.114")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("MA", "130000385")).toBeFalsy();
+    expect(inscricaoEstadual.isValid("XX", "110.042.490.114")).toBeFalsy();
+  });
+
+  it("aceita o valor ISENTO", () => {
+    expect(inscricaoEstadual.isValid("SP", "ISENTO")).toBeTruthy();
+    expect(inscricaoEstadual.isValid("RJ", " isento ")).toBeTruthy();
+    expect(inscricaoEstadual.isValid("SP", "ISENTO", { allowExempt: false })).toBeFalsy();
+    expect(inscricaoEstadual.isValid("XX", "ISENTO")).toBeFalsy();
+  });
+
+  it("gera inscrições estaduais válidas para todas as UFs", () => {
+    for (const uf of Object.keys(examples) as UF[]) {
+      for (let i = 0; i < 20; i++) {
+        expect(inscricaoEstadual.isValid(uf, inscricaoEstadual.generate(uf))).toBeTruthy();
+      }
+      expect(inscricaoEstadual.isValid(uf, inscricaoEstadual.generate(uf, { formatted: true }))).toBeTruthy();
+    }
+    expect(inscricaoEstadual.generate("SP", { seed: 1 })).toBe(inscricaoEstadual.generate("SP", { seed: 1 }));
+    expect(() => inscricaoEstadual.generate("RS", { random: () => 0 })).toThrow(
+      "Não foi possível gerar uma inscrição estadual válida para RS com a fonte de números aleatórios informada"
+    );
+    const unknownUF: string = "XX";
+    expect(() => inscricaoEstadual.generate(unknownUF as UF)).toThrow("UF inválida: XX");
+  });
+
+  it("retorna o número formatado", () => {
+    expect(inscricaoEstadual.format("SP", "110042490114")).toBe("110.042.490.114");
+    expect(inscricaoEstadual.format("SP", "p011004243002")).toBe("P-01100424.3/002");
+    expect(inscricaoEstadual.format("BA", "12345663")).toBe("123456-63");
+    expect(inscricaoEstadual.format("BA", "100000306")).toBe("1000003-06");
+    expect(inscricaoEstadual.format("MG", "0623079040081")).toBe("062.307.904/0081");
+    expect(inscricaoEstadual.format("SP", "isento")).toBe("ISENTO");
+    expect(inscricaoEstadual.format("SP", "1100.42")).toBe("110042");
+    expect(() => inscricaoEstadual.format("XX", "110042490114")).toThrow("UF inválida: XX");
+  });
+});
@@ -0,0 +1,52 @@
+import { pis } from "../src/index";
+
+describe("PIS", () => {
+  it("números de listas negras", () => {
+    expect(pis.isValid("00000000000")).toBeFalsy();
+    expect(pis.isValid("11111111111")).toBeFalsy();
+    expect(pis.isValid("99999999999")).toBeFalsy();
+  });
+
+  it("rejeita valores falsos", () => {
+    expect(pis.isValid("")).toBeFalsy();
+  });
+
+  it("valida strings formatadas", () => {
+    expect(pis.isValid("120.56412.54-5")).toBeTruthy();
+  });
+
+  it("valida string não formatadas", () => {
+    expect(pis.isValid("12056412545")).toBeTruthy();
+    expect(pis.isValid("12345678919")).toBeTruthy();
+  });
+
+  it("valida PIS inválido", () => {
+    expect(pis.isValid("12056412547")).toBeFalsy();
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(pis.validate("1205641254").reason).toBe("invalidLength");
+    expect(pis.validate("11111111111").reason).toBe("repeatedDigits");
+    expect(pis.validate("12056412547")).toMatchObject({
+      kind: "pis",
+      reason: "firstCheckDigit",
+      expectedCheckDigits: "5",
+    });
+  });
+
+  it("gera PIS válido", () => {
+    expect(pis.isValid(pis.generate())).toBeTruthy();
+    expect(pis.generate({ formatted: true })).toMatch(/^\d{3}\.\d{5}\.\d{2}-\d$/);
+    expect(pis.generate({ seed: 42 })).toBe(pis.generate({ seed: 42 }));
+  });
+
+  it("interrompe a geração quando a fonte de números aleatórios só gera números inválidos", () => {
+    expect(() => pis.generate({ random: () => 0 })).toThrow(
+      "Não foi possível gerar um PIS válido com a fonte de números aleatórios informada"
+    );
+  });
+
+  it("retorna o número formatado", () => {
+    expect(pis.format("12056412545")).toBe("120.56412.54-5");
+  });
+});
@@ -0,0 +1,46 @@
+import { pix } from "../src/index";
+
+describe("Pix", () => {
+  it("identifica o tipo da chave", () => {
+    expect(pix.detect("295.379.955-93")).toBe("cpf");
+    expect(pix.detect("25.143.815/0001-50")).toBe("cnpj");
+    expect(pix.detect("12.ABC.345/01DE-35")).toBe("cnpj");
+    expect(pix.detect("fulano@exemplo.com")).toBe("email");
+    expect(pix.detect("+55 (11) 91234-5678")).toBe("phone");
+    expect(pix.detect("123e4567-e89b-42d3-a456-426614174000")).toBe("evp");
+    expect(pix.detect("1234")).toBeNull();
+  });
+
+  it("valida chaves de CPF e CNPJ pelos dígitos verificadores", () => {
+    expect(pix.isValid("29537995593")).toBeTruthy();
+    expect(pix.isValid("29537995594")).toBeFalsy();
+    expect(pix.isValid("25143815000150")).toBeTruthy();
+    expect(pix.isValid("12abc34501de35")).toBeTruthy();
+    expect(pix.isValid("25143815000140")).toBeFalsy();
+  });
+
+  it("valida chaves de e-mail, telefone e aleatórias", () => {
+    expect(pix.isValid("fulano.silva+pix@exemplo.com.br")).toBeTruthy();
+    expect(pix.isValid("fulano@")).toBeFalsy();
+    expect(pix.isValid(`${"a".repeat(70)}@exemplo.com`)).toBeFalsy();
+    expect(pix.isValid("+5511912345678")).toBeTruthy();
+    expect(pix.isValid("+551133334444")).toBeTruthy();
+    expect(pix.isValid("+5511812345678")).toBeFalsy();
+    expect(pix.isValid("+15551234567")).toBeFalsy();
+    expect(pix.isValid("123e4567-e89b-42d3-a456-42661417400")).toBeFalsy();
+  });
+
+  it("restringe os tipos de chave aceitos", () => {
+    expect(pix.isValid("fulano@exemplo.com", { types: ["email", "phone"] })).toBeTruthy();
+    expect(pix.isValid("fulano@exemplo.com", { types: ["cpf", "cnpj"] })).toBeFalsy();
+  });
+
+  it("converte a chave para a forma canônica", () => {
+    expect(pix.normalize("295.379.955-93")).toBe("29537995593");
+    expect(pix.normalize("12.abc.345/01de-35")).toBe("12ABC34501DE35");
+    expect(pix.normalize(" Fulano@Exemplo.COM ")).toBe("fulano@exemplo.com");
+    expect(pix.normalize("+55 (11) 91234-5678")).toBe("+5511912345678");
+    expect(pix.normalize("123E4567-E89B-42D3-A456-426614174000")).toBe("123e4567-e89b-42d3-a456-426614174000");
+    expect(pix.normalize("295.379.955-94")).toBeNull();
+  });
+});
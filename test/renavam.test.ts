@@ -0,0 +1,51 @@
+import { renavam } from "../src/index";
+
+describe("RENAVAM", () => {
+  it("números de listas negras", () => {
+    expect(renavam.isValid("00000000000")).toBeFalsy();
+    expect(renavam.isValid("11111111111")).toBeFalsy();
+    expect(renavam.isValid("99999999999")).toBeFalsy();
+  });
+
+  it("rejeita valores falsos", () => {
+    expect(renavam.isValid("")).toBeFalsy();
+  });
+
+  it("valida strings formatadas", () => {
+    expect(renavam.isValid("0063988496-2")).toBeTruthy();
+  });
+
+  it("valida string não formatadas", () => {
+    expect(renavam.isValid("00639884962")).toBeTruthy();
+  });
+
+  it("valida RENAVAM inválido", () => {
+    expect(renavam.isValid("00639884963")).toBeFalsy();
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(renavam.validate("639884962").reason).toBe("invalidLength");
+    expect(renavam.validate("11111111111").reason).toBe("repeatedDigits");
+    expect(renavam.validate("00639884963")).toMatchObject({
+      kind: "renavam",
+      reason: "firstCheckDigit",
+      expectedCheckDigits: "2",
+    });
+  });
+
+  it("gera RENAVAM válido", () => {
+    expect(renavam.isValid(renavam.generate())).toBeTruthy();
+    expect(renavam.generate({ formatted: true })).toMatch(/^\d{10}-\d$/);
+    expect(renavam.generate({ seed: 42 })).toBe(renavam.generate({ seed: 42 }));
+  });
+
+  it("interrompe a geração quando a fonte de números aleatórios só gera números inválidos", () => {
+    expect(() => renavam.generate({ random: () => 0 })).toThrow(
+      "Não foi possível gerar um RENAVAM válido com a fonte de números aleatórios informada"
+    );
+  });
+
+  it("retorna o número formatado", () => {
+    expect(renavam.format("00639884962")).toBe("0063988496-2");
+  });
+});
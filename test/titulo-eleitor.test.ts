@@ -0,0 +1,62 @@
+import { tituloEleitor, UF } from "../src/index";
+
+describe("Título de eleitor", () => {
+  it("rejeita valores falsos", () => {
+    expect(tituloEleitor.isValid("")).toBeFalsy();
+    expect(tituloEleitor.isValid("000000000000")).toBeFalsy();
+  });
+
+  it("valida strings formatadas", () => {
+    expect(tituloEleitor.isValid("1023 8501 0671")).toBeTruthy();
+  });
+
+  it("valida string não formatadas", () => {
+    expect(tituloEleitor.isValid("102385010671")).toBeTruthy();
+    expect(tituloEleitor.isValid("004356870906")).toBeTruthy();
+  });
+
+  it("valida título de eleitor inválido", () => {
+    expect(tituloEleitor.isValid("102385010672")).toBeFalsy();
+  });
+
+  it("informa o motivo da falha na validação", () => {
+    expect(tituloEleitor.validate("10238501067").reason).toBe("invalidLength");
+    expect(tituloEleitor.validate("102385012971").reason).toBe("invalidState");
+    expect(tituloEleitor.validate("102385010661").reason).toBe("firstCheckDigit");
+    expect(tituloEleitor.validate("102385010672")).toMatchObject({
+      reason: "secondCheckDigit",
+      expectedCheckDigits: "71",
+    });
+  });
+
+  it("aplica a regra especial de SP e MG", () => {
+    // Sequência cuja soma ponderada tem resto 0: o dígito é 1 em SP e MG e 0 nas demais UFs
+    expect(tituloEleitor.validate("000000000100").expectedCheckDigits).toBe("16");
+    expect(tituloEleitor.validate("000000000200").expectedCheckDigits).toBe("13");
+    expect(tituloEleitor.validate("000000000300").expectedCheckDigits).toBe("02");
+  });
+
+  it("extrai a UF do título de eleitor", () => {
+    expect(tituloEleitor.parse("1023 8501 0671")).toEqual({
+      value: "102385010671",
+      sequence: "10238501",
+      ufCode: "06",
+      uf: "PR",
+      checkDigits: "71",
+    });
+    expect(tituloEleitor.parse("102385010672")).toBeNull();
+  });
+
+  it("gera título de eleitor válido para a UF informada", () => {
+    for (const uf of ["SP", "MG", "RJ", "ZZ"] as const) {
+      expect(tituloEleitor.parse(tituloEleitor.generate({ uf }))?.uf).toBe(uf);
+    }
+    expect(tituloEleitor.generate({ formatted: true })).toMatch(/^\d{4} \d{4} \d{4}$/);
+    const unknownUF: string = "XX";
+    expect(() => tituloEleitor.generate({ uf: unknownUF as UF })).toThrow("UF inválida: XX");
+  });
+
+  it("retorna o número formatado", () => {
+    expect(tituloEleitor.format("102385010671")).toBe("1023 8501 0671");
+  });
+});
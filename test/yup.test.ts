@@ -0,0 +1,34 @@
+import { object, string, ValidationError } from "yup";
+import "../src/adapters/yup";
+
+describe("Adaptador Yup", () => {
+  it("valida CPF e CNPJ", () => {
+    expect(string().cpf().validateSync("295.379.955-93")).toBe("295.379.955-93");
+    expect(string().cnpj().validateSync("12.ABC.345/01DE-35")).toBe("12.ABC.345/01DE-35");
+    expect(string().cpfOrCnpj().validateSync("25143815000150")).toBe("25143815000150");
+  });
+
+  it("informa a mesma mensagem e motivo da extensão Joi", () => {
+    expect.assertions(1);
+    try {
+      string().cpf().validateSync("111.111.111-11");
+    } catch (error) {
+      expect(error).toMatchObject({
+        type: "cpf",
+        message: "CPF não pode ser uma sequência de dígitos repetidos",
+        params: expect.objectContaining({ code: "document.cpf.repeatedDigits", reason: "repeatedDigits" }),
+      });
+    }
+  });
+
+  it("aceita valores indefinidos, a menos que sejam obrigatórios", async () => {
+    const schema = object({
+      cpf: string().cpf(),
+      cnpj: string().cnpj("CNPJ da empresa inválido").required(),
+    });
+
+    await expect(schema.validate({ cnpj: "25143815000150" })).resolves.toEqual({ cnpj: "25143815000150" });
+    await expect(schema.validate({ cnpj: "25143815000140" })).rejects.toThrow(ValidationError);
+    await expect(schema.validate({ cnpj: "25143815000140" })).rejects.toThrow("CNPJ da empresa inválido");
+  });
+});
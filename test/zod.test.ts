@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { cpf, cnpj, cpfOrCnpj, refineDocument } from "../src/adapters/zod";
+
+describe("Adaptador Zod", () => {
+  it("valida CPF e CNPJ", () => {
+    expect(cpf().parse("295.379.955-93")).toBe("295.379.955-93");
+    expect(cnpj().parse("12.ABC.345/01DE-35")).toBe("12.ABC.345/01DE-35");
+    expect(cpfOrCnpj().parse("25143815000150")).toBe("25143815000150");
+  });
+
+  it("informa a mesma mensagem e motivo da extensão Joi", () => {
+    const result = cpf().safeParse("295.379.955-94");
+
+    expect(result.success).toBeFalsy();
+    expect(result.error?.issues[0]).toMatchObject({
+      code: "custom",
+      message: "CPF inválido: segundo dígito verificador não confere",
+      params: { code: "document.cpf.secondCheckDigit", reason: "secondCheckDigit", kind: "cpf" },
+    });
+  });
+
+  it("indica o tipo identificado na regra cpfOrCnpj", () => {
+    expect(cpfOrCnpj().safeParse("25.143.815/0001-40").error?.issues[0].message).toBe(
+      "CNPJ inválido: primeiro dígito verificador não confere"
+    );
+  });
+
+  it("permite utilizar o refinamento em outros schemas", () => {
+    const schema = z.object({
+      documento: z.string().trim().superRefine(refineDocument("cnpj", { message: "Documento inválido" })),
+    });
+
+    expect(schema.parse({ documento: " 25143815000150 " })).toEqual({ documento: "25143815000150" });
+    expect(schema.safeParse({ documento: "123" }).error?.issues[0]).toMatchObject({
+      message: "Documento inválido",
+      path: ["documento"],
+      params: { reason: "invalidLength" },
+    });
+  });
+});